@@ -2,4 +2,55 @@
 
 import { Path, UNIX_SEPS, LINUX_SEPS, WINDOWS_SEPS} from "./src/Path.ts";
 export {Path, UNIX_SEPS, LINUX_SEPS, WINDOWS_SEPS} from "./src/Path.ts";
+export {
+  DenoFileSystem,
+  MemoryFileSystem,
+  PathMap,
+  PathSet,
+  PathTraversalError,
+  PathWatcher,
+  PurePath,
+  TempPath,
+  UndefinedVariableError,
+} from "./src/Path.ts";
+export type {
+  AppDirKind,
+  AppDirOptions,
+  CompareOptions,
+  CopyOptions,
+  Environment,
+  ExpandOptions,
+  FileSystem,
+  FindUpOptions,
+  FlavorMapping,
+  FlavorOptions,
+  GlobMatchOptions,
+  GlobOptions,
+  HashAlgorithm,
+  HashOptions,
+  HashTreeOptions,
+  LinkHop,
+  LinkResolution,
+  MemoryFileSystemOptions,
+  OverwritePolicy,
+  PathFlavor,
+  PathProblem,
+  PathProblemKind,
+  PathRoot,
+  PathStat,
+  RootKind,
+  SanitizeOptions,
+  ShellKind,
+  ShellOptions,
+  SymlinkOptions,
+  TempOptions,
+  ValidateOptions,
+  WalkOptions,
+  WatchEvent,
+  WatchEventKind,
+  WatchOptions,
+  WhichOptions,
+  WithinOptions,
+  WriteOptions,
+} from "./src/Path.ts";
 export default Path;
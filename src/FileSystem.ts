@@ -0,0 +1,218 @@
+// Copyright 2020 Matheus Xavier all rights reserved. MIT licensed
+
+/**
+ * the filesystem operations `Path` delegates to, paths are passed as rendered strings
+ * errors are expected to be the same `Deno.errors` the Deno APIs throw so callers can tell
+ * e.g. `NotFound` from `PermissionDenied` regardless of the backend
+ */
+export interface FileSystem {
+  /** the directory relative paths are resolved against */
+  cwd(): string;
+  stat(path: string): Promise<Deno.FileInfo>;
+  statSync(path: string): Deno.FileInfo;
+  lstat(path: string): Promise<Deno.FileInfo>;
+  lstatSync(path: string): Deno.FileInfo;
+  realPath(path: string): Promise<string>;
+  realPathSync(path: string): string;
+  readDir(path: string): AsyncIterable<Deno.DirEntry>;
+  readDirSync(path: string): Iterable<Deno.DirEntry>;
+  mkdir(path: string, options?: Deno.MkdirOptions): Promise<void>;
+  mkdirSync(path: string, options?: Deno.MkdirOptions): void;
+  remove(path: string, options?: Deno.RemoveOptions): Promise<void>;
+  removeSync(path: string, options?: Deno.RemoveOptions): void;
+  readFile(path: string): Promise<Uint8Array>;
+  readFileSync(path: string): Uint8Array;
+  /** the contents of a file as a stream of chunks, so large files are never held in memory */
+  readable(path: string): Promise<ReadableStream<Uint8Array>>;
+  writeFile(
+    path: string,
+    data: Uint8Array,
+    options?: Deno.WriteFileOptions,
+  ): Promise<void>;
+  writeFileSync(
+    path: string,
+    data: Uint8Array,
+    options?: Deno.WriteFileOptions,
+  ): void;
+  rename(oldpath: string, newpath: string): Promise<void>;
+  renameSync(oldpath: string, newpath: string): void;
+  copyFile(from: string, to: string): Promise<void>;
+  copyFileSync(from: string, to: string): void;
+  symlink(
+    target: string,
+    path: string,
+    options?: Deno.SymlinkOptions,
+  ): Promise<void>;
+  symlinkSync(
+    target: string,
+    path: string,
+    options?: Deno.SymlinkOptions,
+  ): void;
+  readLink(path: string): Promise<string>;
+  readLinkSync(path: string): string;
+  link(oldpath: string, newpath: string): Promise<void>;
+  linkSync(oldpath: string, newpath: string): void;
+  chmod(path: string, mode: number): Promise<void>;
+  chmodSync(path: string, mode: number): void;
+  chown(path: string, uid: number | null, gid: number | null): Promise<void>;
+  chownSync(path: string, uid: number | null, gid: number | null): void;
+  utime(path: string, atime: Date, mtime: Date): Promise<void>;
+  utimeSync(path: string, atime: Date, mtime: Date): void;
+}
+
+/**
+ * the default backend, every operation is forwarded to the matching `Deno` API
+ */
+export class DenoFileSystem implements FileSystem {
+  cwd(): string {
+    return Deno.cwd();
+  }
+
+  stat(path: string): Promise<Deno.FileInfo> {
+    return Deno.stat(path);
+  }
+
+  statSync(path: string): Deno.FileInfo {
+    return Deno.statSync(path);
+  }
+
+  lstat(path: string): Promise<Deno.FileInfo> {
+    return Deno.lstat(path);
+  }
+
+  lstatSync(path: string): Deno.FileInfo {
+    return Deno.lstatSync(path);
+  }
+
+  realPath(path: string): Promise<string> {
+    return Deno.realPath(path);
+  }
+
+  realPathSync(path: string): string {
+    return Deno.realPathSync(path);
+  }
+
+  readDir(path: string): AsyncIterable<Deno.DirEntry> {
+    return Deno.readDir(path);
+  }
+
+  readDirSync(path: string): Iterable<Deno.DirEntry> {
+    return Deno.readDirSync(path);
+  }
+
+  mkdir(path: string, options?: Deno.MkdirOptions): Promise<void> {
+    return Deno.mkdir(path, options);
+  }
+
+  mkdirSync(path: string, options?: Deno.MkdirOptions): void {
+    Deno.mkdirSync(path, options);
+  }
+
+  remove(path: string, options?: Deno.RemoveOptions): Promise<void> {
+    return Deno.remove(path, options);
+  }
+
+  removeSync(path: string, options?: Deno.RemoveOptions): void {
+    Deno.removeSync(path, options);
+  }
+
+  readFile(path: string): Promise<Uint8Array> {
+    return Deno.readFile(path);
+  }
+
+  readFileSync(path: string): Uint8Array {
+    return Deno.readFileSync(path);
+  }
+
+  readable(path: string): Promise<ReadableStream<Uint8Array>> {
+    return Deno.open(path).then((file) => file.readable);
+  }
+
+  writeFile(
+    path: string,
+    data: Uint8Array,
+    options?: Deno.WriteFileOptions,
+  ): Promise<void> {
+    return Deno.writeFile(path, data, options);
+  }
+
+  writeFileSync(
+    path: string,
+    data: Uint8Array,
+    options?: Deno.WriteFileOptions,
+  ): void {
+    Deno.writeFileSync(path, data, options);
+  }
+
+  rename(oldpath: string, newpath: string): Promise<void> {
+    return Deno.rename(oldpath, newpath);
+  }
+
+  renameSync(oldpath: string, newpath: string): void {
+    Deno.renameSync(oldpath, newpath);
+  }
+
+  copyFile(from: string, to: string): Promise<void> {
+    return Deno.copyFile(from, to);
+  }
+
+  copyFileSync(from: string, to: string): void {
+    Deno.copyFileSync(from, to);
+  }
+
+  symlink(
+    target: string,
+    path: string,
+    options?: Deno.SymlinkOptions,
+  ): Promise<void> {
+    return Deno.symlink(target, path, options);
+  }
+
+  symlinkSync(
+    target: string,
+    path: string,
+    options?: Deno.SymlinkOptions,
+  ): void {
+    Deno.symlinkSync(target, path, options);
+  }
+
+  readLink(path: string): Promise<string> {
+    return Deno.readLink(path);
+  }
+
+  readLinkSync(path: string): string {
+    return Deno.readLinkSync(path);
+  }
+
+  link(oldpath: string, newpath: string): Promise<void> {
+    return Deno.link(oldpath, newpath);
+  }
+
+  linkSync(oldpath: string, newpath: string): void {
+    Deno.linkSync(oldpath, newpath);
+  }
+
+  chmod(path: string, mode: number): Promise<void> {
+    return Deno.chmod(path, mode);
+  }
+
+  chmodSync(path: string, mode: number): void {
+    Deno.chmodSync(path, mode);
+  }
+
+  chown(path: string, uid: number | null, gid: number | null): Promise<void> {
+    return Deno.chown(path, uid, gid);
+  }
+
+  chownSync(path: string, uid: number | null, gid: number | null): void {
+    Deno.chownSync(path, uid, gid);
+  }
+
+  utime(path: string, atime: Date, mtime: Date): Promise<void> {
+    return Deno.utime(path, atime, mtime);
+  }
+
+  utimeSync(path: string, atime: Date, mtime: Date): void {
+    Deno.utimeSync(path, atime, mtime);
+  }
+}
@@ -0,0 +1,629 @@
+// Copyright 2020 Matheus Xavier all rights reserved. MIT licensed
+import { PurePath } from "./PurePath.ts";
+import { UNIX_SEPS } from "./_separator.ts";
+import { _isWindowsSeparators } from "./_root.ts";
+import type { FileSystem } from "./FileSystem.ts";
+
+/**
+ * options for creating an in-memory filesystem
+ */
+export interface MemoryFileSystemOptions {
+  /** the separators paths are parsed with, defaults to `UNIX_SEPS` */
+  separators?: string[];
+  /** the directory relative paths are resolved against, defaults to the root */
+  cwd?: string;
+  /** the owner of created entries, defaults to 1000 */
+  uid?: number;
+  /** the group of created entries, defaults to 1000 */
+  gid?: number;
+}
+
+/**
+ * a single entry of the in-memory tree, hard links share the same node
+ */
+interface Node {
+  kind: "file" | "dir" | "symlink";
+  /** the permission bits without the file type */
+  mode: number;
+  uid: number;
+  gid: number;
+  ino: number;
+  nlink: number;
+  atime: Date;
+  mtime: Date;
+  birthtime: Date;
+  data?: Uint8Array;
+  children?: Map<string, Node>;
+  target?: string;
+}
+
+/**
+ * where a path lead to, `node` is unset if the last element does not exist
+ */
+interface Lookup {
+  node?: Node;
+  parent: Node;
+  name: string;
+  /** the real elements of the path, symlinks and `..` resolved */
+  elements: string[];
+  root: string;
+}
+
+/** the file type bits stat reports in `mode` */
+const TYPE_BITS = { file: 0o100000, dir: 0o040000, symlink: 0o120000 };
+/** how many symlinks are followed before giving up, same as linux */
+const MAX_HOPS = 40;
+
+/** the size of the chunks `readable` streams files in */
+const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * build an error carrying the errno style code the Deno APIs set on errors
+ * that have no class of their own in `Deno.errors`
+ */
+function codeError(code: string, message: string): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+/**
+ * run a synchronous operation as a promise, errors become rejections as they do
+ * for the async Deno APIs
+ */
+function later<T>(op: () => T): Promise<T> {
+  try {
+    return Promise.resolve(op());
+  } catch (e) {
+    return Promise.reject(e);
+  }
+}
+
+/**
+ * a filesystem that only lives in memory, useful for testing code using `Path` without
+ * touching the disk. it supports directories, files, symlinks, hard links and owner
+ * permission bits, a missing read, write or execute bit raises `Deno.errors.PermissionDenied`
+ * ```ts
+ * const fs = new MemoryFileSystem();
+ * const config = new Path("/etc/app/config.json").withFileSystem(fs);
+ * await config.writeJson({ debug: true }, { parents: true });
+ * ```
+ */
+export class MemoryFileSystem implements FileSystem {
+  private roots = new Map<string, Node>();
+  private separators: string[];
+  private currentDir: string;
+  private uid: number;
+  private gid: number;
+  private inodes = 0;
+
+  /**
+   * @param options the separators, working directory and owner of created entries
+   */
+  constructor(
+    { separators = UNIX_SEPS, cwd, uid = 1000, gid = 1000 }:
+      MemoryFileSystemOptions = {},
+  ) {
+    this.separators = separators;
+    this.uid = uid;
+    this.gid = gid;
+    this.currentDir = cwd ??
+      (_isWindowsSeparators(separators) ? "C:\\" : separators[0]);
+    if (!new PurePath(this.currentDir, separators).isAbsolute) {
+      throw new Error(
+        `the working directory ${this.currentDir} is not absolute`,
+      );
+    }
+  }
+
+  /**
+   * create a node owned by the configured user
+   */
+  private createNode(kind: Node["kind"], mode: number): Node {
+    const now = new Date();
+    return {
+      kind,
+      mode: mode & 0o7777,
+      uid: this.uid,
+      gid: this.gid,
+      ino: ++this.inodes,
+      nlink: 1,
+      atime: now,
+      mtime: now,
+      birthtime: now,
+      children: kind === "dir" ? new Map() : undefined,
+    };
+  }
+
+  /**
+   * split a path into its root and elements, relative paths are anchored at `base`
+   */
+  private split(
+    path: string,
+    base: PurePath,
+  ): { root: string; elements: string[] } {
+    let pp = new PurePath(path, this.separators);
+    if (pp.root.kind === "relative") {
+      pp = base.join(...pp.elements);
+    } else if (!pp.isAbsolute) {
+      // windows rooted and drive relative paths take what they lack from the base
+      pp = pp.root.kind === "root"
+        ? base.withElements(pp.elements).withRoot(base.root)
+        : pp.withRoot({ ...pp.root, absolute: true });
+    }
+    const root = pp.withElements([]).toString();
+    return {
+      root: _isWindowsSeparators(this.separators) ? root.toUpperCase() : root,
+      elements: [...pp.elements],
+    };
+  }
+
+  /**
+   * the directory node of a root, drives of windows paths are created on first use
+   */
+  private rootNode(root: string): Node {
+    let node = this.roots.get(root);
+    if (!node) {
+      node = this.createNode("dir", 0o755);
+      this.roots.set(root, node);
+    }
+    return node;
+  }
+
+  /**
+   * walk the tree to `path` the way the kernel would, resolving `..` physically
+   * @param path the path to look up
+   * @param follow whether a symlink as the last element is followed
+   * @throws NotFound if a directory on the way does not exist
+   */
+  private lookup(path: string, follow: boolean): Lookup {
+    const cwd = new PurePath(this.currentDir, this.separators);
+    let { root, elements: queue } = this.split(path, cwd);
+    let stack = [this.rootNode(root)];
+    let names = new Array<string>();
+    let hops = 0;
+    queue = queue.filter((e) => e !== "" && e !== ".");
+    while (queue.length) {
+      const name = queue.shift()!;
+      const dir = stack[stack.length - 1];
+      if (dir.kind !== "dir") {
+        throw new Deno.errors.NotADirectory(`not a directory: '${path}'`);
+      }
+      if (!(dir.mode & 0o100)) {
+        throw new Deno.errors.PermissionDenied(`permission denied: '${path}'`);
+      }
+      if (name === "..") {
+        if (stack.length > 1) {
+          stack.pop();
+          names.pop();
+        }
+        continue;
+      }
+      const child = dir.children!.get(name);
+      if (!child) {
+        if (queue.length) {
+          throw new Deno.errors.NotFound(
+            `no such file or directory: '${path}'`,
+          );
+        }
+        return { parent: dir, name, elements: names.concat(name), root };
+      }
+      if (child.kind === "symlink" && (queue.length || follow)) {
+        if (++hops > MAX_HOPS) {
+          throw new Deno.errors.FilesystemLoop(
+            `too many levels of symbolic links: '${path}'`,
+          );
+        }
+        const base = new PurePath(root, this.separators).withElements(names);
+        const target = this.split(child.target!, base);
+        queue = target.elements.filter((e) => e !== "" && e !== ".")
+          .concat(queue);
+        root = target.root;
+        stack = [this.rootNode(root)];
+        names = [];
+        continue;
+      }
+      stack.push(child);
+      names.push(name);
+    }
+    const node = stack[stack.length - 1];
+    return {
+      node,
+      parent: stack.length > 1 ? stack[stack.length - 2] : node,
+      name: names.length ? names[names.length - 1] : "",
+      elements: names,
+      root,
+    };
+  }
+
+  /**
+   * look up a path that has to exist
+   * @throws NotFound if it does not
+   */
+  private existing(path: string, follow: boolean): Lookup & { node: Node } {
+    const found = this.lookup(path, follow);
+    if (!found.node) {
+      throw new Deno.errors.NotFound(`no such file or directory: '${path}'`);
+    }
+    return found as Lookup & { node: Node };
+  }
+
+  /**
+   * checks an owner permission bit of a node
+   * @throws PermissionDenied if the bit is not set
+   */
+  private access(node: Node, bit: number, path: string): void {
+    if (!(node.mode & bit)) {
+      throw new Deno.errors.PermissionDenied(`permission denied: '${path}'`);
+    }
+  }
+
+  /**
+   * attach a node to a directory updating the directory's modification time
+   */
+  private attach(parent: Node, name: string, node: Node, path: string): void {
+    this.access(parent, 0o200, path);
+    parent.children!.set(name, node);
+    parent.mtime = new Date();
+  }
+
+  /**
+   * the metadata of a node in the shape `Deno.stat` returns
+   */
+  private info(node: Node): Deno.FileInfo {
+    const size = node.kind === "file"
+      ? node.data!.length
+      : node.kind === "symlink"
+      ? node.target!.length
+      : 4096;
+    return {
+      isFile: node.kind === "file",
+      isDirectory: node.kind === "dir",
+      isSymlink: node.kind === "symlink",
+      size,
+      mtime: new Date(node.mtime),
+      atime: new Date(node.atime),
+      birthtime: new Date(node.birthtime),
+      ctime: new Date(node.mtime),
+      dev: 1,
+      ino: node.ino,
+      mode: TYPE_BITS[node.kind] | node.mode,
+      nlink: node.nlink,
+      uid: node.uid,
+      gid: node.gid,
+      rdev: 0,
+      blksize: 4096,
+      blocks: Math.ceil(size / 512),
+      isBlockDevice: false,
+      isCharDevice: false,
+      isFifo: false,
+      isSocket: false,
+    };
+  }
+
+  cwd(): string {
+    return this.currentDir;
+  }
+
+  /**
+   * change the directory relative paths are resolved against
+   * @param path the new working directory, it has to exist
+   */
+  chdir(path: string): void {
+    const { node } = this.existing(path, true);
+    if (node.kind !== "dir") {
+      throw new Deno.errors.NotADirectory(`not a directory: '${path}'`);
+    }
+    this.currentDir = this.realPathSync(path);
+  }
+
+  statSync(path: string): Deno.FileInfo {
+    return this.info(this.existing(path, true).node);
+  }
+
+  stat(path: string): Promise<Deno.FileInfo> {
+    return later(() => this.statSync(path));
+  }
+
+  lstatSync(path: string): Deno.FileInfo {
+    return this.info(this.existing(path, false).node);
+  }
+
+  lstat(path: string): Promise<Deno.FileInfo> {
+    return later(() => this.lstatSync(path));
+  }
+
+  realPathSync(path: string): string {
+    const { root, elements } = this.existing(path, true);
+    return new PurePath(root, this.separators).withElements(elements)
+      .toString();
+  }
+
+  realPath(path: string): Promise<string> {
+    return later(() => this.realPathSync(path));
+  }
+
+  readDirSync(path: string): Iterable<Deno.DirEntry> {
+    const { node } = this.existing(path, true);
+    if (node.kind !== "dir") {
+      throw new Deno.errors.NotADirectory(`not a directory: '${path}'`);
+    }
+    this.access(node, 0o400, path);
+    node.atime = new Date();
+    return Array.from(node.children!, ([name, child]) => ({
+      name,
+      isFile: child.kind === "file",
+      isDirectory: child.kind === "dir",
+      isSymlink: child.kind === "symlink",
+    }));
+  }
+
+  async *readDir(path: string): AsyncIterable<Deno.DirEntry> {
+    yield* this.readDirSync(path);
+  }
+
+  mkdirSync(
+    path: string,
+    { recursive = false, mode = 0o755 }: Deno.MkdirOptions = {},
+  ): void {
+    if (recursive) {
+      const cwd = new PurePath(this.currentDir, this.separators);
+      const { root, elements } = this.split(path, cwd);
+      const rp = new PurePath(root, this.separators);
+      for (let i = 1; i <= elements.length; i++) {
+        const prefix = rp.withElements(elements.slice(0, i)).toString();
+        const { node } = this.lookup(prefix, true);
+        if (!node) {
+          this.mkdirSync(prefix, { mode });
+        } else if (node.kind !== "dir") {
+          throw new Deno.errors.AlreadyExists(`file exists: '${prefix}'`);
+        }
+      }
+      return;
+    }
+    const { node, parent, name } = this.lookup(path, false);
+    if (node) {
+      throw new Deno.errors.AlreadyExists(`file exists: '${path}'`);
+    }
+    this.attach(parent, name, this.createNode("dir", mode), path);
+  }
+
+  mkdir(path: string, options?: Deno.MkdirOptions): Promise<void> {
+    return later(() => this.mkdirSync(path, options));
+  }
+
+  removeSync(
+    path: string,
+    { recursive = false }: Deno.RemoveOptions = {},
+  ): void {
+    const { node, parent, name } = this.existing(path, false);
+    if (node === parent) {
+      throw new Deno.errors.PermissionDenied(
+        `can not remove a root: '${path}'`,
+      );
+    }
+    if (node.kind === "dir" && node.children!.size && !recursive) {
+      throw codeError("ENOTEMPTY", `directory not empty: '${path}'`);
+    }
+    this.access(parent, 0o200, path);
+    parent.children!.delete(name);
+    parent.mtime = new Date();
+    node.nlink--;
+  }
+
+  remove(path: string, options?: Deno.RemoveOptions): Promise<void> {
+    return later(() => this.removeSync(path, options));
+  }
+
+  readFileSync(path: string): Uint8Array {
+    const { node } = this.existing(path, true);
+    if (node.kind === "dir") {
+      throw new Deno.errors.IsADirectory(`is a directory: '${path}'`);
+    }
+    this.access(node, 0o400, path);
+    node.atime = new Date();
+    return node.data!.slice();
+  }
+
+  readFile(path: string): Promise<Uint8Array> {
+    return later(() => this.readFileSync(path));
+  }
+
+  readable(path: string): Promise<ReadableStream<Uint8Array>> {
+    return later(() => {
+      const data = this.readFileSync(path);
+      let offset = 0;
+      return new ReadableStream<Uint8Array>({
+        pull(controller) {
+          if (offset < data.length) {
+            controller.enqueue(data.subarray(offset, offset += CHUNK_SIZE));
+          } else {
+            controller.close();
+          }
+        },
+      });
+    });
+  }
+
+  writeFileSync(
+    path: string,
+    data: Uint8Array,
+    {
+      append = false,
+      create = true,
+      createNew = false,
+      mode = 0o644,
+    }: Deno.WriteFileOptions = {},
+  ): void {
+    const { node, parent, name } = this.lookup(path, true);
+    if (!node) {
+      if (!create && !createNew) {
+        throw new Deno.errors.NotFound(`no such file or directory: '${path}'`);
+      }
+      const file = this.createNode("file", mode);
+      file.data = data.slice();
+      this.attach(parent, name, file, path);
+      return;
+    }
+    if (createNew) {
+      throw new Deno.errors.AlreadyExists(`file exists: '${path}'`);
+    }
+    if (node.kind === "dir") {
+      throw new Deno.errors.IsADirectory(`is a directory: '${path}'`);
+    }
+    this.access(node, 0o200, path);
+    if (append) {
+      const joined = new Uint8Array(node.data!.length + data.length);
+      joined.set(node.data!);
+      joined.set(data, node.data!.length);
+      node.data = joined;
+    } else {
+      node.data = data.slice();
+    }
+    node.mtime = new Date();
+  }
+
+  writeFile(
+    path: string,
+    data: Uint8Array,
+    options?: Deno.WriteFileOptions,
+  ): Promise<void> {
+    return later(() => this.writeFileSync(path, data, options));
+  }
+
+  renameSync(oldpath: string, newpath: string): void {
+    const from = this.existing(oldpath, false);
+    const to = this.lookup(newpath, false);
+    if (from.node === from.parent) {
+      throw new Deno.errors.PermissionDenied(
+        `can not move a root: '${oldpath}'`,
+      );
+    }
+    if (to.node === from.node) {
+      return;
+    }
+    const inside = from.root === to.root &&
+      from.elements.every((e, i) => to.elements[i] === e);
+    if (from.node.kind === "dir" && inside) {
+      throw codeError(
+        "EINVAL",
+        `can not move '${oldpath}' into itself: '${newpath}'`,
+      );
+    }
+    if (to.node) {
+      if (to.node.kind === "dir" && from.node.kind !== "dir") {
+        throw new Deno.errors.IsADirectory(`is a directory: '${newpath}'`);
+      }
+      if (to.node.kind !== "dir" && from.node.kind === "dir") {
+        throw new Deno.errors.NotADirectory(`not a directory: '${newpath}'`);
+      }
+      if (to.node.kind === "dir" && to.node.children!.size) {
+        throw codeError("ENOTEMPTY", `directory not empty: '${newpath}'`);
+      }
+      to.node.nlink--;
+    }
+    this.access(from.parent, 0o200, oldpath);
+    this.attach(to.parent, to.name, from.node, newpath);
+    from.parent.children!.delete(from.name);
+  }
+
+  rename(oldpath: string, newpath: string): Promise<void> {
+    return later(() => this.renameSync(oldpath, newpath));
+  }
+
+  copyFileSync(from: string, to: string): void {
+    const { node } = this.existing(from, true);
+    if (node.kind === "dir") {
+      throw new Deno.errors.IsADirectory(`is a directory: '${from}'`);
+    }
+    this.writeFileSync(to, this.readFileSync(from), { mode: node.mode });
+    this.chmodSync(to, node.mode);
+  }
+
+  copyFile(from: string, to: string): Promise<void> {
+    return later(() => this.copyFileSync(from, to));
+  }
+
+  symlinkSync(
+    target: string,
+    path: string,
+    _options?: Deno.SymlinkOptions,
+  ): void {
+    const { node, parent, name } = this.lookup(path, false);
+    if (node) {
+      throw new Deno.errors.AlreadyExists(`file exists: '${path}'`);
+    }
+    const link = this.createNode("symlink", 0o777);
+    link.target = target;
+    this.attach(parent, name, link, path);
+  }
+
+  symlink(
+    target: string,
+    path: string,
+    options?: Deno.SymlinkOptions,
+  ): Promise<void> {
+    return later(() => this.symlinkSync(target, path, options));
+  }
+
+  readLinkSync(path: string): string {
+    const { node } = this.existing(path, false);
+    if (node.kind !== "symlink") {
+      throw codeError("EINVAL", `not a symbolic link: '${path}'`);
+    }
+    return node.target!;
+  }
+
+  readLink(path: string): Promise<string> {
+    return later(() => this.readLinkSync(path));
+  }
+
+  linkSync(oldpath: string, newpath: string): void {
+    const { node } = this.existing(oldpath, false);
+    if (node.kind === "dir") {
+      throw new Deno.errors.PermissionDenied(
+        `can not hard link a directory: '${oldpath}'`,
+      );
+    }
+    const to = this.lookup(newpath, false);
+    if (to.node) {
+      throw new Deno.errors.AlreadyExists(`file exists: '${newpath}'`);
+    }
+    this.attach(to.parent, to.name, node, newpath);
+    node.nlink++;
+  }
+
+  link(oldpath: string, newpath: string): Promise<void> {
+    return later(() => this.linkSync(oldpath, newpath));
+  }
+
+  chmodSync(path: string, mode: number): void {
+    this.existing(path, true).node.mode = mode & 0o7777;
+  }
+
+  chmod(path: string, mode: number): Promise<void> {
+    return later(() => this.chmodSync(path, mode));
+  }
+
+  chownSync(path: string, uid: number | null, gid: number | null): void {
+    const { node } = this.existing(path, true);
+    node.uid = uid ?? node.uid;
+    node.gid = gid ?? node.gid;
+  }
+
+  chown(
+    path: string,
+    uid: number | null,
+    gid: number | null,
+  ): Promise<void> {
+    return later(() => this.chownSync(path, uid, gid));
+  }
+
+  utimeSync(path: string, atime: Date, mtime: Date): void {
+    const { node } = this.existing(path, true);
+    node.atime = new Date(atime);
+    node.mtime = new Date(mtime);
+  }
+
+  utime(path: string, atime: Date, mtime: Date): Promise<void> {
+    return later(() => this.utimeSync(path, atime, mtime));
+  }
+}
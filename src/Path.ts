@@ -1,21 +1,298 @@
 // Copyright 2020 Matheus Xavier all rights reserved. MIT licensed
-import { _determineSeparators } from "./_separator.ts";
+import { PathTraversalError, PurePath } from "./PurePath.ts";
+import { _isWindowsSeparators } from "./_root.ts";
+import type { PathRoot } from "./_root.ts";
+import { _expandBraces, _isMagic, _segmentToRegExp } from "./_glob.ts";
+import type { GlobMatchOptions } from "./_glob.ts";
+import type { ShellOptions } from "./_shell.ts";
+import {
+  _environment,
+  _expandVars,
+  _homeDir,
+  _homeVar,
+  _lookupVar,
+  _passwdHome,
+  UndefinedVariableError,
+} from "./_expand.ts";
+import type { Environment, ExpandOptions } from "./_expand.ts";
+import { _appDirParts, _requireHome } from "./_dirs.ts";
+import { _digestHex } from "./_digest.ts";
+import type { HashAlgorithm } from "./_digest.ts";
+import type { AppDirKind, AppDirOptions } from "./_dirs.ts";
+import { UNIX_SEPS, WINDOWS_SEPS } from "./_separator.ts";
+import { PathWatcher } from "./PathWatcher.ts";
+import { DenoFileSystem } from "./FileSystem.ts";
+import type { FileSystem } from "./FileSystem.ts";
+import type { WatchOptions } from "./PathWatcher.ts";
+import type {
+  PathProblem,
+  SanitizeOptions,
+  ValidateOptions,
+} from "./_validate.ts";
+import type { CompareOptions, FlavorOptions } from "./PurePath.ts";
 import Hashids from "./_hashids.ts";
 
-/** unix style separators constant */
-export const UNIX_SEPS = ["/"];
-/** @deprecated will be removed on 3.0.0 in favor of UNIX_SEPS*/
-export const LINUX_SEPS = UNIX_SEPS;
-/** windows style separators constant */
-export const WINDOWS_SEPS = ["\\", "/"];
+export { LINUX_SEPS, UNIX_SEPS, WINDOWS_SEPS } from "./_separator.ts";
+export { PathTraversalError, PurePath } from "./PurePath.ts";
+export type {
+  CompareOptions,
+  FlavorMapping,
+  FlavorOptions,
+} from "./PurePath.ts";
+export { PathMap, PathSet } from "./PathCollections.ts";
+export { PathWatcher } from "./PathWatcher.ts";
+export { DenoFileSystem } from "./FileSystem.ts";
+export type { FileSystem } from "./FileSystem.ts";
+export { MemoryFileSystem } from "./MemoryFileSystem.ts";
+export type { MemoryFileSystemOptions } from "./MemoryFileSystem.ts";
+export type {
+  WatchEvent,
+  WatchEventKind,
+  WatchOptions,
+} from "./PathWatcher.ts";
+export type { PathRoot, RootKind } from "./_root.ts";
+export type { GlobMatchOptions } from "./_glob.ts";
+export type { ShellKind, ShellOptions } from "./_shell.ts";
+export { UndefinedVariableError } from "./_expand.ts";
+export type { Environment, ExpandOptions } from "./_expand.ts";
+export type { AppDirKind, AppDirOptions } from "./_dirs.ts";
+export type { HashAlgorithm } from "./_digest.ts";
+export type {
+  PathFlavor,
+  PathProblem,
+  PathProblemKind,
+  SanitizeOptions,
+  ValidateOptions,
+} from "./_validate.ts";
+
+/**
+ * options for expanding a glob pattern over the filesystem
+ */
+export interface GlobOptions {
+  /** the directory relative patterns are expanded from, defaults to `Path.fromCWD()` */
+  cwd?: Path | string;
+  /** whether wildcards match entries starting with a `.` */
+  dot?: boolean;
+  /** whether `**` descends into symlinked directories, symlink loops are skipped */
+  followSymlinks?: boolean;
+}
+
+/**
+ * options for walking a directory tree
+ */
+export interface WalkOptions {
+  /** how deep to descend, direct children are at depth 1, defaults to no limit */
+  maxDepth?: number;
+  /** whether files are yielded, defaults to true */
+  includeFiles?: boolean;
+  /** whether directories are yielded, defaults to true */
+  includeDirs?: boolean;
+  /** whether symlinks are yielded when they are not followed, defaults to true */
+  includeSymlinks?: boolean;
+  /** whether symlinks are followed as their target, symlink loops are not descended into */
+  followSymlinks?: boolean;
+  /** only yield files ending in one of these extensions e.g. `[".ts", ".d.ts"]` */
+  exts?: string[];
+  /** paths for which this returns true are neither yielded nor descended into */
+  skip?: (path: Path) => boolean;
+}
+
+/**
+ * options for writing to a file
+ */
+export interface WriteOptions {
+  /**
+   * write to a sibling temporary file and rename it into place so readers never see a partial file
+   * a replaced file keeps its permissions unless `mode` is given
+   */
+  atomic?: boolean;
+  /** create any missing parent directories first */
+  parents?: boolean;
+  /** the permissions the file is created with, ignored on windows */
+  mode?: number;
+}
+
+/**
+ * metadata about a filesystem entry, fields the platform does not provide are null
+ */
+export interface PathStat {
+  isFile: boolean;
+  isDirectory: boolean;
+  isSymlink: boolean;
+  /** the size in bytes */
+  size: number;
+  /** the last modification time */
+  mtime: Date | null;
+  /** the last access time */
+  atime: Date | null;
+  /** the creation time */
+  birthtime: Date | null;
+  /** the permission bits and file type, null on windows */
+  mode: number | null;
+  /** the owner user id, null on windows */
+  uid: number | null;
+  /** the owner group id, null on windows */
+  gid: number | null;
+}
+
+/**
+ * options for confining a path to a root
+ */
+export interface WithinOptions {
+  /** whether symlinks are resolved through the filesystem so they can not escape the root either */
+  realpath?: boolean;
+}
+
+/**
+ * options for creating a symlink
+ */
+export interface SymlinkOptions {
+  /** the kind of link to create on windows, ignored elsewhere */
+  type?: "file" | "dir" | "junction";
+  /** atomically replace an existing entry at this path */
+  replace?: boolean;
+}
+
+/**
+ * a single step taken while following a chain of symlinks
+ */
+export interface LinkHop {
+  /** the symlink that was read */
+  link: Path;
+  /** where it points to, relative targets are resolved against the link's directory */
+  target: Path;
+}
+
+/**
+ * the result of following a chain of symlinks
+ */
+export interface LinkResolution {
+  /** every link followed in order */
+  hops: LinkHop[];
+  /** the last path reached, the first that is not a symlink unless the chain is broken or cyclic */
+  target: Path;
+  /** whether the chain ends at a path that does not exist */
+  broken: boolean;
+  /** whether the chain points back at a link already followed */
+  cycle: boolean;
+}
+
+/**
+ * options for creating temporary files and directories
+ */
+export interface TempOptions {
+  /** prepended to the random name */
+  prefix?: string;
+  /** appended to the random name */
+  suffix?: string;
+  /** joins the prefix and suffix to the random name, defaults to `.` */
+  joinChar?: string;
+  /** where to create the entry, defaults to `Path.getTmpPath()` */
+  tmpDir?: Path | string;
+  /** how many names are tried before giving up, defaults to 100 */
+  maxAttempts?: number;
+}
+
+/**
+ * what to do when the destination of a copy or move already exists
+ * * `error` throw `Deno.errors.AlreadyExists`
+ * * `skip` leave the destination untouched
+ * * `replace` always replace the destination
+ * * `replaceIfNewer` replace the destination only if the source was modified more recently
+ */
+export type OverwritePolicy = "error" | "skip" | "replace" | "replaceIfNewer";
+
+/**
+ * options for copying and moving paths
+ */
+export interface CopyOptions {
+  /** what to do with existing destination files, defaults to `error`, directories are always merged */
+  overwrite?: OverwritePolicy;
+  /** whether the mode, access and modification times of the source are kept */
+  preserve?: boolean;
+  /**
+   * how symlinks are handled, defaults to `copy`
+   * `follow` copies the link target, `copy` recreates the link and `skip` ignores it
+   */
+  symlinks?: "follow" | "copy" | "skip";
+}
+
+/**
+ * options for hashing a file
+ */
+export interface HashOptions {
+  /** the digest algorithm, defaults to `SHA-256` */
+  algorithm?: HashAlgorithm;
+}
+
+/**
+ * options for hashing a directory tree
+ */
+export interface HashTreeOptions extends HashOptions {
+  /** whether the permission bits of files are part of the digest, defaults to false */
+  modes?: boolean;
+  /** only files whose path relative to the tree matches one of these glob patterns are hashed */
+  include?: string[];
+  /** files and directories whose relative path matches one of these glob patterns are left out */
+  exclude?: string[];
+}
+
+/**
+ * options for searching upwards through the ancestors of a path
+ */
+export interface FindUpOptions {
+  /** the last directory searched, defaults to the root */
+  stopAt?: Path | PurePath | string;
+  /** only match names that are files or directories, by default anything matches */
+  type?: "file" | "dir";
+}
+
+/**
+ * options for looking up an executable
+ */
+export interface WhichOptions {
+  /** return every match in search order instead of only the first one */
+  all?: boolean;
+  /**
+   * the directories to search delimited like `PATH`, defaults to the `PATH` environment variable
+   * for posix separators an empty entry is the current directory as POSIX specifies
+   */
+  path?: string;
+  /**
+   * the extensions tried for windows separators delimited by `;`,
+   * defaults to the `PATHEXT` environment variable
+   */
+  pathext?: string;
+  /**
+   * separators of the returned paths, windows separators split `path` on `;` instead of `:`
+   * and apply `pathext`, defaults to the host's
+   */
+  separators?: string[];
+}
+
+/**
+ * checks if an error was caused by renaming across filesystems
+ */
+function isCrossDevice(e: unknown): boolean {
+  const code = (e as { code?: string }).code;
+  return code === "EXDEV" || code === "ERROR_NOT_SAME_DEVICE";
+}
 
 /**
  * this class represents a filesystem path, and allows for easy manipulation of said path
+ * it is a mutable wrapper around an immutable `PurePath`, use `toPure()` to take a snapshot
+ * that is safe to hand out
  */
 export class Path {
-  private pathElements: string[];
-  private separators: string[];
-  public trailingSlash: boolean = false;
+  private pure: PurePath;
+  private fs?: FileSystem;
+  /** the directory entry this path was produced from by `children` or `walk` */
+  public dirEntry?: Deno.DirEntry;
+  /**
+   * the filesystem used by paths that were not given one with `withFileSystem`
+   * replace it to redirect every such path e.g. to a `MemoryFileSystem` in tests
+   */
+  public static defaultFileSystem: FileSystem = new DenoFileSystem();
 
   /**
    * construct a path object already with a path or empty
@@ -24,40 +301,65 @@ export class Path {
    * separators are an array where the 0th element is the preferred separator
    */
   constructor(path?: string, separators?: string[]) {
-    this.separators = separators || _determineSeparators();
-    if (path) {
-      this.trailingSlash = path[0] === "/";
-      this.pathElements = Path.explodePath(this.separators, path);
-    } else {
-      this.pathElements = new Array<string>();
-    }
+    this.pure = new PurePath(path, separators);
   }
 
   /**
-   * explodes a string into an array of strings
-   * @param separators a list of valid separators for the host system
-   * @param pathString the path to be exploded as a string
+   * wrap a pure path into a new mutable Path
+   * @param pure the pure path to be wrapped
    */
-  private static explodePath(
-    separators: string[],
-    pathString: string,
-  ): string[] {
-    const exploded = pathString.split("");
-    const pathElements = new Array<string>();
-    let currentElement = "";
-    for (let charAt = 0; charAt < exploded.length; charAt++) {
-      let char = exploded[charAt];
-      if (separators.indexOf(char) === -1) {
-        currentElement = currentElement + char;
-      } else {
-        if (currentElement) {
-          pathElements.push(currentElement);
-          currentElement = "";
-        }
-      }
+  public static fromPure(pure: PurePath): Path {
+    const np = new Path(undefined, pure.separatorList);
+    np.pure = pure;
+    return np;
+  }
+
+  /**
+   * take an immutable snapshot of this path, later changes to this Path do not affect it
+   */
+  public toPure(): PurePath {
+    return this.pure;
+  }
+
+  /**
+   * wrap a pure path into a new Path using the same filesystem as this one
+   */
+  private derive(pure: PurePath): Path {
+    const np = Path.fromPure(pure);
+    np.fs = this.fs;
+    return np;
+  }
+
+  /**
+   * the filesystem this path operates on, `Path.defaultFileSystem` unless one was set
+   */
+  get fileSystem(): FileSystem {
+    return this.fs ?? Path.defaultFileSystem;
+  }
+
+  /**
+   * bind a copy of this path to a filesystem, paths derived from it use the same filesystem
+   * ```ts
+   * const root = new Path("/srv").withFileSystem(new MemoryFileSystem());
+   * root.mkDirSync(); // only exists in memory
+   * ```
+   * @param fs the filesystem to operate on
+   * @returns a new Path
+   */
+  public withFileSystem(fs: FileSystem): Path {
+    const np = Path.fromPure(this.pure);
+    np.fs = fs;
+    return np;
+  }
+
+  /**
+   * coerce a path like value into a PurePath using this path's separators
+   */
+  private coerce(other: Path | PurePath | string): PurePath {
+    if (typeof other === "string") {
+      return new PurePath(other, this.separatorList);
     }
-    pathElements.push(currentElement);
-    return pathElements;
+    return other instanceof Path ? other.toPure() : other;
   }
 
   /**
@@ -70,9 +372,15 @@ export class Path {
     suffix: string = "",
     separator?: string,
   ): string {
-    let path = this.pathElements.join(separator || this.separators[0]);
-    path = prefix.concat(path.concat(suffix));
-    return this.trailingSlash ? "/".concat(path) : path;
+    return this.pure.toString(prefix, suffix, separator);
+  }
+
+  /**
+   * render this path quoted for a shell, see `PurePath.toShellString`
+   * @param options the shell to quote for
+   */
+  public toShellString(options?: ShellOptions): string {
+    return this.pure.toShellString(options);
   }
 
   /**
@@ -80,8 +388,7 @@ export class Path {
    * @param e a string denoting a Path fragment
    */
   public push(e: string): Path {
-    let pe = Path.explodePath(this.separatorList, e);
-    pe.forEach((e) => this.pathElements.push(e));
+    this.pure = this.pure.join(e);
     return this;
   }
 
@@ -89,18 +396,577 @@ export class Path {
    * Pop an element from the path and return the popped element as another Path
    */
   public pop(): Path {
-    let path_len = this.pathElements.length - 1;
-    return new Path(this.pathElements[path_len], this.separators);
+    const elements = this.pure.elements;
+    return this.derive(
+      new PurePath(elements[elements.length - 1], this.separatorList),
+    );
   }
 
   /**
    * removes an element from the end of this path and returns the path to allow for chaining
    */
   public del(): Path {
-    this.pathElements.pop();
+    this.pure = this.pure.withElements(this.pure.elements.slice(0, -1));
     return this;
   }
 
+  /**
+   * lexically normalize this path, removing `.` and empty elements and resolving `..`
+   * against the preceding element. `..` never climbs above the root of an anchored path,
+   * verbatim (`\\?\`) paths are returned unchanged as windows does not normalize them.
+   * this does not touch the filesystem so symlinks are not taken into account
+   * ```ts
+   * new Path("/a/./b/../c").normalize().toString(); // "/a/c"
+   * ```
+   * @returns a new normalized Path
+   */
+  public normalize(): Path {
+    return this.derive(this.pure.normalize());
+  }
+
+  /**
+   * resolve this path into an absolute normalized path, relative paths are anchored at `base`
+   * see `PurePath.resolve` for how windows rooted and drive relative paths are handled
+   * @param base the path to resolve against, defaults to `Path.fromCWD()`
+   * @returns a new resolved Path
+   */
+  public resolve(base?: Path | PurePath | string): Path {
+    if (this.isAbsolute) {
+      return this.normalize();
+    }
+    const cwd = new PurePath(this.fileSystem.cwd(), this.separatorList);
+    let bp = base === undefined ? cwd : this.coerce(base);
+    if (!bp.isAbsolute) {
+      bp = bp.resolve(cwd);
+    }
+    return this.derive(this.pure.resolve(bp));
+  }
+
+  /**
+   * resolve this path through the filesystem following any symlinks
+   * requires: --allow-read flag
+   * @returns a new Path pointing to the canonical location
+   */
+  public async realpath(): Promise<Path> {
+    return this.derive(
+      new PurePath(
+        await this.fileSystem.realPath(this.toString()),
+        this.separatorList,
+      ),
+    );
+  }
+
+  /**
+   * resolve this path through the filesystem following any symlinks synchronously
+   * requires: --allow-read flag
+   * @returns a new Path pointing to the canonical location
+   */
+  public realpathSync(): Path {
+    return this.derive(
+      new PurePath(
+        this.fileSystem.realPathSync(this.toString()),
+        this.separatorList,
+      ),
+    );
+  }
+
+  /**
+   * convert this path to POSIX flavor, see `PurePath.toPosix`
+   * ```ts
+   * new Path("C:\\src\\app", WINDOWS_SEPS).toPosix({ mapping: "wsl" }).toString(); // "/mnt/c/src/app"
+   * ```
+   * @param options how drives are mapped to POSIX paths
+   * @returns a new Path using `UNIX_SEPS`
+   */
+  public toPosix(options?: FlavorOptions): Path {
+    return this.derive(this.pure.toPosix(options));
+  }
+
+  /**
+   * convert this path to windows flavor, see `PurePath.toWindows`
+   * ```ts
+   * new Path("/mnt/c/src/app", UNIX_SEPS).toWindows({ mapping: "wsl" }).toString(); // "C:\\src\\app"
+   * ```
+   * @param options how POSIX paths are mapped to drives
+   * @returns a new Path using `WINDOWS_SEPS`
+   */
+  public toWindows(options?: FlavorOptions): Path {
+    return this.derive(this.pure.toWindows(options));
+  }
+
+  /**
+   * checks if this path matches a glob pattern, see `PurePath.matches`
+   * ```ts
+   * new Path("/home/me/src/lib/mod.ts").matches("src/**\/*.ts"); // true
+   * ```
+   * @param pattern the glob pattern, it is split using this path's separators
+   * @param options whether wildcards match dotfiles and if the match is case sensitive
+   */
+  public matches(pattern: string, options?: GlobMatchOptions): boolean {
+    return this.pure.matches(pattern, options);
+  }
+
+  /**
+   * check whether this path can be created on the given platforms, see `PurePath.validate`
+   * @param options the rules to validate against, defaults to `portable`
+   * @returns every problem found, empty if the path is valid
+   */
+  public validate(options?: ValidateOptions): PathProblem[] {
+    return this.pure.validate(options);
+  }
+
+  /**
+   * produce a name that is safe to create on the given platforms, see `PurePath.sanitize`
+   * @param options the rules to sanitize for and the replacement character
+   * @throws Error if the replacement is empty or itself invalid
+   * @returns a new Path, this path is left untouched
+   */
+  public sanitize(options?: SanitizeOptions): Path {
+    return this.derive(this.pure.sanitize(options));
+  }
+
+  /**
+   * prepare the state shared by `glob` and `globSync`
+   */
+  private static globPlan(pattern: string, cwd?: Path | string) {
+    const base = cwd === undefined
+      ? Path.fromCWD()
+      : typeof cwd === "string"
+      ? new Path(cwd)
+      : cwd;
+    const separators = base.separatorList;
+    return {
+      base,
+      caseSensitive: !_isWindowsSeparators(separators),
+      patterns: _expandBraces(pattern).map((expanded) => {
+        const pp = new PurePath(expanded, separators);
+        return {
+          start: pp.root.kind === "relative"
+            ? base.toPure()
+            : pp.withElements([]),
+          segments: pp.elements.filter((e) => e !== ""),
+        };
+      }),
+    };
+  }
+
+  /**
+   * expand a glob pattern over the filesystem, see `PurePath.matches` for the supported syntax
+   * matching is case insensitive when `cwd` uses windows separators
+   * ```ts
+   * for await (const file of Path.glob("src/**\/*.ts")) {
+   *   console.log(file.toString());
+   * }
+   * ```
+   * requires: --allow-read flag
+   * @param pattern the glob pattern, relative patterns are expanded from `cwd`
+   * @param options the directory to start from and how dotfiles and symlinks are handled
+   */
+  public static async *glob(
+    pattern: string,
+    { cwd, dot = false, followSymlinks = false }: GlobOptions = {},
+  ): AsyncIterableIterator<Path> {
+    const { base, caseSensitive, patterns } = Path.globPlan(pattern, cwd);
+    const fs = base.fileSystem;
+    const seen = new Set<string>();
+    const readEntries = async (dir: PurePath) => {
+      const entries = new Array<Deno.DirEntry>();
+      try {
+        for await (const entry of fs.readDir(dir.toString())) {
+          entries.push(entry);
+        }
+      } catch (e) {
+        // do not hide permission errors from the user
+        if (e instanceof Deno.errors.PermissionDenied) {
+          throw e;
+        }
+      }
+      return entries;
+    };
+    const isDir = async (entry: Deno.DirEntry, path: PurePath) => {
+      if (!entry.isSymlink) {
+        return entry.isDirectory;
+      }
+      try {
+        return (await fs.stat(path.toString())).isDirectory;
+      } catch {
+        return false;
+      }
+    };
+    const walk = async function* (
+      dir: PurePath,
+      segments: string[],
+      visited: Set<string>,
+    ): AsyncIterableIterator<PurePath> {
+      if (!segments.length) {
+        try {
+          await fs.lstat(dir.toString());
+          yield dir;
+        } catch (e) {
+          if (e instanceof Deno.errors.PermissionDenied) {
+            throw e;
+          }
+        }
+        return;
+      }
+      const [segment, ...rest] = segments;
+      if (segment === "**") {
+        yield* walk(dir, rest, visited);
+        for (const entry of await readEntries(dir)) {
+          const child = dir.join(entry.name);
+          if (!dot && entry.name[0] === ".") {
+            continue;
+          }
+          if (
+            (entry.isSymlink && !followSymlinks) ||
+            !(await isDir(entry, child))
+          ) {
+            // a trailing `**` matches every descendant, not only directories
+            if (!rest.length) {
+              yield child;
+            }
+            continue;
+          }
+          if (followSymlinks) {
+            const real = await fs.realPath(child.toString());
+            if (visited.has(real)) {
+              if (!rest.length) {
+                yield child;
+              }
+              continue;
+            }
+            visited.add(real);
+          }
+          yield* walk(child, segments, visited);
+        }
+      } else if (!_isMagic(segment)) {
+        yield* walk(dir.join(segment), rest, visited);
+      } else {
+        const re = _segmentToRegExp(segment, { dot, caseSensitive });
+        for (const entry of await readEntries(dir)) {
+          if (!re.test(entry.name)) {
+            continue;
+          }
+          const child = dir.join(entry.name);
+          if (!rest.length) {
+            yield child;
+          } else if (await isDir(entry, child)) {
+            yield* walk(child, rest, visited);
+          }
+        }
+      }
+    };
+    // symlink loops are tracked per alternative so one alternative never hides matches of another
+    for (const { start, segments } of patterns) {
+      for await (const match of walk(start, segments, new Set())) {
+        const key = match.toString();
+        if (!seen.has(key)) {
+          seen.add(key);
+          yield base.derive(match);
+        }
+      }
+    }
+  }
+
+  /**
+   * expand a glob pattern over the filesystem synchronously, see `Path.glob`
+   * requires: --allow-read flag
+   * @param pattern the glob pattern, relative patterns are expanded from `cwd`
+   * @param options the directory to start from and how dotfiles and symlinks are handled
+   */
+  public static *globSync(
+    pattern: string,
+    { cwd, dot = false, followSymlinks = false }: GlobOptions = {},
+  ): IterableIterator<Path> {
+    const { base, caseSensitive, patterns } = Path.globPlan(pattern, cwd);
+    const fs = base.fileSystem;
+    const seen = new Set<string>();
+    const readEntries = (dir: PurePath) => {
+      try {
+        return Array.from(fs.readDirSync(dir.toString()));
+      } catch (e) {
+        // do not hide permission errors from the user
+        if (e instanceof Deno.errors.PermissionDenied) {
+          throw e;
+        }
+        return [];
+      }
+    };
+    const isDir = (entry: Deno.DirEntry, path: PurePath) => {
+      if (!entry.isSymlink) {
+        return entry.isDirectory;
+      }
+      try {
+        return fs.statSync(path.toString()).isDirectory;
+      } catch {
+        return false;
+      }
+    };
+    const walk = function* (
+      dir: PurePath,
+      segments: string[],
+      visited: Set<string>,
+    ): IterableIterator<PurePath> {
+      if (!segments.length) {
+        try {
+          fs.lstatSync(dir.toString());
+          yield dir;
+        } catch (e) {
+          if (e instanceof Deno.errors.PermissionDenied) {
+            throw e;
+          }
+        }
+        return;
+      }
+      const [segment, ...rest] = segments;
+      if (segment === "**") {
+        yield* walk(dir, rest, visited);
+        for (const entry of readEntries(dir)) {
+          const child = dir.join(entry.name);
+          if (!dot && entry.name[0] === ".") {
+            continue;
+          }
+          if ((entry.isSymlink && !followSymlinks) || !isDir(entry, child)) {
+            // a trailing `**` matches every descendant, not only directories
+            if (!rest.length) {
+              yield child;
+            }
+            continue;
+          }
+          if (followSymlinks) {
+            const real = fs.realPathSync(child.toString());
+            if (visited.has(real)) {
+              if (!rest.length) {
+                yield child;
+              }
+              continue;
+            }
+            visited.add(real);
+          }
+          yield* walk(child, segments, visited);
+        }
+      } else if (!_isMagic(segment)) {
+        yield* walk(dir.join(segment), rest, visited);
+      } else {
+        const re = _segmentToRegExp(segment, { dot, caseSensitive });
+        for (const entry of readEntries(dir)) {
+          if (!re.test(entry.name)) {
+            continue;
+          }
+          const child = dir.join(entry.name);
+          if (!rest.length) {
+            yield child;
+          } else if (isDir(entry, child)) {
+            yield* walk(child, rest, visited);
+          }
+        }
+      }
+    };
+    // symlink loops are tracked per alternative, see `glob`
+    for (const { start, segments } of patterns) {
+      for (const match of walk(start, segments, new Set())) {
+        const key = match.toString();
+        if (!seen.has(key)) {
+          seen.add(key);
+          yield base.derive(match);
+        }
+      }
+    }
+  }
+
+  /**
+   * list the entries of this directory
+   * requires: --allow-read flag
+   * @returns the children of this path, each carrying its `dirEntry`
+   */
+  public async children(): Promise<Path[]> {
+    const children = new Array<Path>();
+    for await (const entry of this.fileSystem.readDir(this.toString())) {
+      const child = this.derive(this.pure.join(entry.name));
+      child.dirEntry = entry;
+      children.push(child);
+    }
+    return children;
+  }
+
+  /**
+   * list the entries of this directory synchronously
+   * requires: --allow-read flag
+   * @returns the children of this path, each carrying its `dirEntry`
+   */
+  public childrenSync(): Path[] {
+    const children = new Array<Path>();
+    for (const entry of this.fileSystem.readDirSync(this.toString())) {
+      const child = this.derive(this.pure.join(entry.name));
+      child.dirEntry = entry;
+      children.push(child);
+    }
+    return children;
+  }
+
+  /**
+   * checks if a walked path passes the include and extension filters
+   */
+  private static walkIncludes(
+    path: Path,
+    isFile: boolean,
+    isDir: boolean,
+    isSymlink: boolean,
+    {
+      includeFiles = true,
+      includeDirs = true,
+      includeSymlinks = true,
+      exts,
+    }: WalkOptions,
+  ): boolean {
+    if (isSymlink) {
+      return includeSymlinks;
+    }
+    if (isDir) {
+      return includeDirs;
+    }
+    if (isFile && includeFiles) {
+      const name = path.name;
+      return !exts || exts.some((ext) => name.endsWith(ext));
+    }
+    return false;
+  }
+
+  /**
+   * recursively walk the tree below this directory, the directory itself is not yielded
+   * ```ts
+   * for await (const p of new Path("src").walk({ exts: [".ts"] })) {
+   *   console.log(p.toString(), p.dirEntry?.isFile);
+   * }
+   * ```
+   * requires: --allow-read flag
+   * @param options depth limit, filters and how symlinks are handled
+   */
+  public async *walk(options: WalkOptions = {}): AsyncIterableIterator<Path> {
+    const { maxDepth = Infinity, followSymlinks = false, skip } = options;
+    const fs = this.fileSystem;
+    const walkDir = async function* (
+      dir: Path,
+      depth: number,
+      ancestors: string[],
+    ): AsyncIterableIterator<Path> {
+      for (const child of await dir.children()) {
+        if (skip && skip(child)) {
+          continue;
+        }
+        const entry = child.dirEntry!;
+        let isFile = entry.isFile;
+        let isDir = entry.isDirectory;
+        let isSymlink = entry.isSymlink;
+        if (isSymlink && followSymlinks) {
+          try {
+            const info = await fs.stat(child.toString());
+            isFile = info.isFile;
+            isDir = info.isDirectory;
+            isSymlink = false;
+          } catch (e) {
+            // do not hide permission errors from the user
+            if (e instanceof Deno.errors.PermissionDenied) {
+              throw e;
+            }
+          }
+        }
+        if (Path.walkIncludes(child, isFile, isDir, isSymlink, options)) {
+          yield child;
+        }
+        if (!isDir || depth >= maxDepth) {
+          continue;
+        }
+        if (followSymlinks) {
+          const real = await fs.realPath(child.toString());
+          // a directory that is its own ancestor is a symlink loop
+          if (ancestors.indexOf(real) !== -1) {
+            continue;
+          }
+          yield* walkDir(child, depth + 1, ancestors.concat(real));
+        } else {
+          yield* walkDir(child, depth + 1, ancestors);
+        }
+      }
+    };
+    const ancestors = followSymlinks
+      ? [await fs.realPath(this.toString())]
+      : [];
+    yield* walkDir(this, 1, ancestors);
+  }
+
+  /**
+   * recursively walk the tree below this directory synchronously, see `walk`
+   * requires: --allow-read flag
+   * @param options depth limit, filters and how symlinks are handled
+   */
+  public *walkSync(options: WalkOptions = {}): IterableIterator<Path> {
+    const { maxDepth = Infinity, followSymlinks = false, skip } = options;
+    const fs = this.fileSystem;
+    const walkDir = function* (
+      dir: Path,
+      depth: number,
+      ancestors: string[],
+    ): IterableIterator<Path> {
+      for (const child of dir.childrenSync()) {
+        if (skip && skip(child)) {
+          continue;
+        }
+        const entry = child.dirEntry!;
+        let isFile = entry.isFile;
+        let isDir = entry.isDirectory;
+        let isSymlink = entry.isSymlink;
+        if (isSymlink && followSymlinks) {
+          try {
+            const info = fs.statSync(child.toString());
+            isFile = info.isFile;
+            isDir = info.isDirectory;
+            isSymlink = false;
+          } catch (e) {
+            // do not hide permission errors from the user
+            if (e instanceof Deno.errors.PermissionDenied) {
+              throw e;
+            }
+          }
+        }
+        if (Path.walkIncludes(child, isFile, isDir, isSymlink, options)) {
+          yield child;
+        }
+        if (!isDir || depth >= maxDepth) {
+          continue;
+        }
+        if (followSymlinks) {
+          const real = fs.realPathSync(child.toString());
+          // a directory that is its own ancestor is a symlink loop
+          if (ancestors.indexOf(real) !== -1) {
+            continue;
+          }
+          yield* walkDir(child, depth + 1, ancestors.concat(real));
+        } else {
+          yield* walkDir(child, depth + 1, ancestors);
+        }
+      }
+    };
+    const ancestors = followSymlinks ? [fs.realPathSync(this.toString())] : [];
+    yield* walkDir(this, 1, ancestors);
+  }
+
+  /**
+   * watch this file or directory for changes, see `PathWatcher`
+   * this always watches the real filesystem, `fileSystem` is not consulted
+   * requires: --allow-read flag
+   * ```ts
+   * for await (const event of new Path("./config").watch({ debounceMs: 100 })) {
+   *   if (event.kind === "modified") reload(event.path);
+   * }
+   * ```
+   * @param options whether to recurse, how long to debounce and which events to report
+   * @returns an async iterable of typed events, call `close` or break out of it to stop watching
+   */
+  public watch(options?: WatchOptions): PathWatcher {
+    return new PathWatcher(this, options);
+  }
+
   /**
    * finds the first valid node walking a path from the right
    * @param ignoreFiles if set files will be ignored on the resolution
@@ -109,7 +975,7 @@ export class Path {
   public async findLastValidNode(ignoreFiles?: boolean): Promise<Path> {
     return new Promise<Path>(() => {
       let strRepr = this.toString();
-      const np = new Path(strRepr);
+      const np = this.derive(new PurePath(strRepr, this.separatorList));
       if (ignoreFiles) {
         while (!np.exists && !np.isFile) {
           np.del();
@@ -129,7 +995,7 @@ export class Path {
    */
   public findLastValidNodeSync(ignoreFiles?: boolean): Path {
     let strRepr = this.toString();
-    const np = new Path(strRepr);
+    const np = this.derive(new PurePath(strRepr, this.separatorList));
     if (ignoreFiles) {
       while (!np.exists && !np.isFile) {
         np.del();
@@ -143,13 +1009,105 @@ export class Path {
   }
 
   /**
-   * takes the diff between Path x and Path y
-   * @param x
-   * @param y
-   * @returns elements in x but not in y
+   * the directories `findUp` searches, from this resolved path up to `stopAt` or the root
    */
-  public static diff(x: Path, y: Path): string[] {
-    const xRepr = x.elements;
+  private findUpDirs(stopAt?: Path | PurePath | string): Path[] {
+    const stop = stopAt === undefined
+      ? undefined
+      : this.derive(this.coerce(stopAt)).resolve();
+    const dirs = new Array<Path>();
+    for (const dir of this.resolve().ancestors()) {
+      dirs.push(dir);
+      if (stop?.equals(dir)) {
+        break;
+      }
+    }
+    return dirs;
+  }
+
+  /**
+   * search this directory and then each of its ancestors for the nearest one containing
+   * one of `names` or for which `predicate` returns true
+   * ```ts
+   * const config = await Path.fromCWD().findUp(["deno.json", "deno.jsonc"]);
+   * const repo = await Path.fromCWD().findUp(async (dir) => await dir.join(".git").existsAsync());
+   * ```
+   * requires: --allow-read flag
+   * @param match a name or names tried in order in each directory, or a predicate called with each directory
+   * @param options where to stop and whether names have to be files or directories
+   * @returns the first matching name as a new Path, the directory itself for a predicate,
+   * null if nothing matched
+   */
+  public async findUp(
+    match: string | string[] | ((dir: Path) => boolean | Promise<boolean>),
+    { stopAt, type }: FindUpOptions = {},
+  ): Promise<Path | null> {
+    for (const dir of this.findUpDirs(stopAt)) {
+      if (typeof match === "function") {
+        if (await match(dir)) {
+          return dir;
+        }
+        continue;
+      }
+      for (const name of typeof match === "string" ? [match] : match) {
+        const candidate = dir.derive(dir.pure.join(name));
+        const found = type === "file"
+          ? await candidate.isFileAsync()
+          : type === "dir"
+          ? await candidate.isDirAsync()
+          : await candidate.existsAsync();
+        if (found) {
+          return candidate;
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * search this directory and then each of its ancestors synchronously, see `findUp`
+   * requires: --allow-read flag
+   * @param match a name or names tried in order in each directory, or a predicate called with each directory
+   * @param options where to stop and whether names have to be files or directories
+   * @returns the first matching name as a new Path, the directory itself for a predicate,
+   * null if nothing matched
+   */
+  public findUpSync(
+    match: string | string[] | ((dir: Path) => boolean),
+    { stopAt, type }: FindUpOptions = {},
+  ): Path | null {
+    for (const dir of this.findUpDirs(stopAt)) {
+      if (typeof match === "function") {
+        if (match(dir)) {
+          return dir;
+        }
+        continue;
+      }
+      for (const name of typeof match === "string" ? [match] : match) {
+        const candidate = dir.derive(dir.pure.join(name));
+        const found = type === "file"
+          ? candidate.isFile
+          : type === "dir"
+          ? candidate.isDir
+          : candidate.exists;
+        if (found) {
+          return candidate;
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * takes the diff between Path x and Path y
+   * @param x
+   * @param y
+   * @returns elements in x but not in y
+   * @deprecated will be removed on 3.0.0 in favor of `relativeTo`, elements are compared as a set
+   * so repeated elements such as `/a/b/a/c` vs `/a` are lost
+   */
+  public static diff(x: Path, y: Path): string[] {
+    const xRepr = x.elements;
     const yRepr = y.elements;
     let res = xRepr.filter((e) => {
       return yRepr.indexOf(e) === -1;
@@ -157,18 +1115,294 @@ export class Path {
     return res;
   }
 
+  /**
+   * compute the relative path that leads from `base` to this path, both paths are lexically normalized
+   * ```ts
+   * new Path("/a/b/a/c").relativeTo(new Path("/a")).toString(); // "b/a/c"
+   * new Path("/a/c").relativeTo(new Path("/a/b")).toString(); // "../c"
+   * ```
+   * @param base the path the result will be relative to
+   * @throws Error if the paths do not share a root or `base` climbs out of the common part with `..`
+   * @returns a new relative Path, `.` if both paths are the same
+   */
+  public relativeTo(base: Path | PurePath | string): Path {
+    return this.derive(this.pure.relativeTo(this.coerce(base)));
+  }
+
+  /**
+   * checks if two paths are the same, see `PurePath.equals`
+   * @param other the path to compare to
+   * @param options whether the comparison is case sensitive, defaults to false for windows separators
+   */
+  public equals(
+    other: Path | PurePath | string,
+    options?: CompareOptions,
+  ): boolean {
+    return this.pure.equals(this.coerce(other), options);
+  }
+
+  /**
+   * order this path relative to `other`, see `PurePath.compare`
+   * @param other the path to compare to
+   * @param options case sensitivity and whether digits are compared naturally
+   */
+  public compare(
+    other: Path | PurePath | string,
+    options?: CompareOptions,
+  ): number {
+    return this.pure.compare(this.coerce(other), options);
+  }
+
+  /**
+   * compare two paths, suitable as a sort comparator
+   * ```ts
+   * paths.sort(Path.compare);
+   * ```
+   */
+  public static compare(x: Path, y: Path): number {
+    return x.compare(y);
+  }
+
+  /**
+   * a string that is the same for all paths that are `equals`, suitable as a `Map` or `Set` key
+   * @param options whether the key is case sensitive, defaults to false for windows separators
+   */
+  public key(options?: CompareOptions): string {
+    return this.pure.key(options);
+  }
+
+  /**
+   * checks if this path lexically starts with all elements of `other`, both paths are normalized
+   * @param other the prefix to check for
+   */
+  public startsWith(other: Path | PurePath | string): boolean {
+    return this.pure.startsWith(this.coerce(other));
+  }
+
+  /**
+   * checks if this path is a strict ancestor of `other`
+   * @param other the possible descendant
+   */
+  public isAncestorOf(other: Path | PurePath | string): boolean {
+    return this.pure.isAncestorOf(this.coerce(other));
+  }
+
+  /**
+   * checks if this path is a strict descendant of `other`
+   * @param other the possible ancestor
+   */
+  public isDescendantOf(other: Path | PurePath | string): boolean {
+    return this.pure.isDescendantOf(this.coerce(other));
+  }
+
+  /**
+   * this path followed by each of its ancestors up to the root, see `PurePath.ancestors`
+   */
+  public *ancestors(): IterableIterator<Path> {
+    for (const ancestor of this.pure.ancestors()) {
+      yield this.derive(ancestor);
+    }
+  }
+
+  /**
+   * finds the deepest path all of the given paths descend from or are equal to
+   * @param paths the paths to be compared, they are lexically normalized
+   * @returns a new Path or null if no paths are given or they do not share a root
+   */
+  public static commonAncestor(...paths: Path[]): Path | null {
+    const common = PurePath.commonAncestor(...paths.map((p) => p.toPure()));
+    return common ? paths[0].derive(common) : null;
+  }
+
+  /**
+   * append untrusted path fragments making sure the result stays within this path, see `PurePath.joinSafe`
+   * this is purely lexical, use `Path.within` with the `realpath` option to also guard against symlinks
+   * ```ts
+   * new Path("/srv/files").joinSafe(req.name); // throws PathTraversalError for "../etc/passwd"
+   * ```
+   * @param parts strings denoting path fragments
+   * @throws PathTraversalError if a fragment is rooted or the result leaves this path
+   * @returns a new normalized Path, this path is left untouched
+   */
+  public joinSafe(...parts: string[]): Path {
+    return this.derive(this.pure.joinSafe(...parts));
+  }
+
+  /**
+   * the canonical location of a path that may not exist yet, the deepest existing ancestor
+   * is resolved through the filesystem and the missing elements are appended to it
+   */
+  private static async canonical(path: Path): Promise<PurePath> {
+    const missing = new Array<string>();
+    let current = path.resolve().toPure();
+    while (true) {
+      try {
+        const real = await path.fileSystem.realPath(current.toString());
+        return new PurePath(real, path.separatorList).join(...missing);
+      } catch (e) {
+        if (!(e instanceof Deno.errors.NotFound)) {
+          throw e;
+        }
+      }
+      // a broken link may still point outside, so its target is checked instead
+      const links = await path.derive(current).resolveLinks();
+      if (links.hops.length) {
+        current = links.target.toPure();
+        continue;
+      }
+      if (current.parent.equals(current)) {
+        return current.join(...missing);
+      }
+      missing.unshift(current.name);
+      current = current.parent;
+    }
+  }
+
+  /**
+   * the canonical location of a path that may not exist yet synchronously, see `canonical`
+   */
+  private static canonicalSync(path: Path): PurePath {
+    const missing = new Array<string>();
+    let current = path.resolve().toPure();
+    while (true) {
+      try {
+        const real = path.fileSystem.realPathSync(current.toString());
+        return new PurePath(real, path.separatorList).join(...missing);
+      } catch (e) {
+        if (!(e instanceof Deno.errors.NotFound)) {
+          throw e;
+        }
+      }
+      const links = path.derive(current).resolveLinksSync();
+      if (links.hops.length) {
+        current = links.target.toPure();
+        continue;
+      }
+      if (current.parent.equals(current)) {
+        return current.join(...missing);
+      }
+      missing.unshift(current.name);
+      current = current.parent;
+    }
+  }
+
+  /**
+   * confine `candidate` to `root`, relative candidates are anchored at `root`
+   * both are resolved against `Path.fromCWD()` and lexically normalized first, with the
+   * `realpath` option symlinks are followed so a link inside `root` can not point outside of it,
+   * the candidate does not have to exist
+   * requires: --allow-read flag with the `realpath` option
+   * ```ts
+   * const file = await Path.within("/srv/files", req.name, { realpath: true });
+   * ```
+   * @param root the path the candidate has to stay within
+   * @param candidate the path to be checked
+   * @param options whether symlinks are resolved
+   * @throws PathTraversalError if the candidate leaves `root`
+   * @returns the normalized candidate
+   */
+  public static async within(
+    root: Path | string,
+    candidate: Path | PurePath | string,
+    { realpath = false }: WithinOptions = {},
+  ): Promise<Path> {
+    const rp = (typeof root === "string" ? new Path(root) : root).resolve();
+    const cp = rp.derive(
+      PurePath.within(rp.toPure(), rp.coerce(candidate)),
+    );
+    if (realpath) {
+      const realRoot = await Path.canonical(rp);
+      const real = await Path.canonical(cp);
+      if (!real.startsWith(realRoot)) {
+        throw new PathTraversalError(rp.toString(), cp.toString());
+      }
+    }
+    return cp;
+  }
+
+  /**
+   * confine `candidate` to `root` synchronously, see `within`
+   * requires: --allow-read flag with the `realpath` option
+   * @param root the path the candidate has to stay within
+   * @param candidate the path to be checked
+   * @param options whether symlinks are resolved
+   * @throws PathTraversalError if the candidate leaves `root`
+   * @returns the normalized candidate
+   */
+  public static withinSync(
+    root: Path | string,
+    candidate: Path | PurePath | string,
+    { realpath = false }: WithinOptions = {},
+  ): Path {
+    const rp = (typeof root === "string" ? new Path(root) : root).resolve();
+    const cp = rp.derive(
+      PurePath.within(rp.toPure(), rp.coerce(candidate)),
+    );
+    if (realpath) {
+      const realRoot = Path.canonicalSync(rp);
+      const real = Path.canonicalSync(cp);
+      if (!real.startsWith(realRoot)) {
+        throw new PathTraversalError(rp.toString(), cp.toString());
+      }
+    }
+    return cp;
+  }
+
   /**
    * returns the extension or null the dot will not be stripped
-   * dotfiles are considered extensionless
+   * dotfiles are considered extensionless, compound extensions such as `.tar.gz`
+   * are configured through `PurePath.compoundExtensions`
    */
   get ext(): string | null {
-    const lastElem = this.pathElements[this.pathElements.length - 1];
-    const dotIndex = lastElem.split("").lastIndexOf(".");
-    if (dotIndex !== 0 && dotIndex !== -1) {
-      return lastElem.substr(dotIndex);
-    } else {
-      return null;
-    }
+    return this.pure.ext;
+  }
+
+  /**
+   * the last element of this path or an empty string if there is none
+   */
+  get name(): string {
+    return this.pure.name;
+  }
+
+  /**
+   * the name of this path without its extension, see `ext`
+   */
+  get stem(): string {
+    return this.pure.stem;
+  }
+
+  /**
+   * every extension of this path's name in order e.g. `[".tar", ".gz"]`
+   */
+  get suffixes(): string[] {
+    return this.pure.suffixes;
+  }
+
+  /**
+   * replace the extension of this path
+   * @param ext the new extension including its leading dot, an empty string removes it
+   * @returns a new Path
+   */
+  public withExt(ext: string): Path {
+    return this.derive(this.pure.withExt(ext));
+  }
+
+  /**
+   * replace the last element of this path
+   * @param name the new name, it must not be empty or contain separators
+   * @returns a new Path
+   */
+  public withName(name: string): Path {
+    return this.derive(this.pure.withName(name));
+  }
+
+  /**
+   * replace the name of this path keeping its extension
+   * @param stem the new name without extension
+   * @returns a new Path
+   */
+  public withStem(stem: string): Path {
+    return this.derive(this.pure.withStem(stem));
   }
 
   /**
@@ -181,7 +1415,7 @@ export class Path {
    */
   get exists(): boolean {
     try {
-      Deno.statSync(this.toString());
+      this.fileSystem.statSync(this.toString());
       return true;
     } catch (e) {
       // do not hide permission errors from the user
@@ -194,7 +1428,7 @@ export class Path {
 
   get isFile(): boolean {
     try {
-      return Deno.statSync(this.toString()).isFile;
+      return this.fileSystem.statSync(this.toString()).isFile;
     } catch (e) {
       // do not hide permission errors from the user
       if (e instanceof Deno.errors.PermissionDenied) {
@@ -206,7 +1440,90 @@ export class Path {
 
   get isDir(): boolean {
     try {
-      return Deno.statSync(this.toString()).isDirectory;
+      return this.fileSystem.statSync(this.toString()).isDirectory;
+    } catch (e) {
+      // do not hide permission errors from the user
+      if (e instanceof Deno.errors.PermissionDenied) {
+        throw e;
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Checks if the path is a symlink, the link itself is inspected and not its target
+   * requires: --allow-read flag
+   */
+  get isSymlink(): boolean {
+    try {
+      return this.fileSystem.lstatSync(this.toString()).isSymlink;
+    } catch (e) {
+      // do not hide permission errors from the user
+      if (e instanceof Deno.errors.PermissionDenied) {
+        throw e;
+      }
+      return false;
+    }
+  }
+
+  /**
+   * convert the metadata returned by deno into a PathStat
+   */
+  private static toStat(info: Deno.FileInfo): PathStat {
+    return {
+      isFile: info.isFile,
+      isDirectory: info.isDirectory,
+      isSymlink: info.isSymlink,
+      size: info.size,
+      mtime: info.mtime,
+      atime: info.atime,
+      birthtime: info.birthtime,
+      mode: info.mode,
+      uid: info.uid,
+      gid: info.gid,
+    };
+  }
+
+  /**
+   * query the metadata of this path following symlinks
+   * requires: --allow-read flag
+   */
+  public async stat(): Promise<PathStat> {
+    return Path.toStat(await this.fileSystem.stat(this.toString()));
+  }
+
+  /**
+   * query the metadata of this path following symlinks synchronously
+   * requires: --allow-read flag
+   */
+  public statSync(): PathStat {
+    return Path.toStat(this.fileSystem.statSync(this.toString()));
+  }
+
+  /**
+   * query the metadata of this path, symlinks are not followed
+   * requires: --allow-read flag
+   */
+  public async lstat(): Promise<PathStat> {
+    return Path.toStat(await this.fileSystem.lstat(this.toString()));
+  }
+
+  /**
+   * query the metadata of this path synchronously, symlinks are not followed
+   * requires: --allow-read flag
+   */
+  public lstatSync(): PathStat {
+    return Path.toStat(this.fileSystem.lstatSync(this.toString()));
+  }
+
+  /**
+   * run a metadata check returning false if the path can not be queried
+   */
+  private static async probe(
+    check: () => Promise<boolean>,
+  ): Promise<boolean> {
+    try {
+      return await check();
     } catch (e) {
       // do not hide permission errors from the user
       if (e instanceof Deno.errors.PermissionDenied) {
@@ -216,106 +1533,1551 @@ export class Path {
     }
   }
 
-  get isSymlink(): boolean {
+  /**
+   * Checks if the path exists without blocking
+   * requires: --allow-read flag
+   */
+  public async existsAsync(): Promise<boolean> {
+    return await Path.probe(async () => !!(await this.stat()));
+  }
+
+  /**
+   * Checks if the path is a file without blocking
+   * requires: --allow-read flag
+   */
+  public async isFileAsync(): Promise<boolean> {
+    return await Path.probe(async () => (await this.stat()).isFile);
+  }
+
+  /**
+   * Checks if the path is a directory without blocking
+   * requires: --allow-read flag
+   */
+  public async isDirAsync(): Promise<boolean> {
+    return await Path.probe(async () => (await this.stat()).isDirectory);
+  }
+
+  /**
+   * Checks if the path is a symlink without blocking, the link itself is inspected and not its target
+   * requires: --allow-read flag
+   */
+  public async isSymlinkAsync(): Promise<boolean> {
+    return await Path.probe(async () => (await this.lstat()).isSymlink);
+  }
+
+  /**
+   * change the permissions of this path, not supported on windows
+   * requires: --allow-write flag
+   * @param mode the new permission bits e.g. `0o644`
+   */
+  public async chmod(mode: number): Promise<void> {
+    await this.fileSystem.chmod(this.toString(), mode);
+  }
+
+  /**
+   * change the permissions of this path synchronously, not supported on windows
+   * requires: --allow-write flag
+   * @param mode the new permission bits e.g. `0o644`
+   */
+  public chmodSync(mode: number): void {
+    this.fileSystem.chmodSync(this.toString(), mode);
+  }
+
+  /**
+   * change the owner of this path, not supported on windows
+   * requires: --allow-write flag
+   * @param uid the new owner user id or null to leave it unchanged
+   * @param gid the new owner group id or null to leave it unchanged
+   */
+  public async chown(uid: number | null, gid: number | null): Promise<void> {
+    await this.fileSystem.chown(this.toString(), uid, gid);
+  }
+
+  /**
+   * change the owner of this path synchronously, not supported on windows
+   * requires: --allow-write flag
+   * @param uid the new owner user id or null to leave it unchanged
+   * @param gid the new owner group id or null to leave it unchanged
+   */
+  public chownSync(uid: number | null, gid: number | null): void {
+    this.fileSystem.chownSync(this.toString(), uid, gid);
+  }
+
+  /**
+   * create this file if it does not exist and set its access and modification times
+   * requires: --allow-write flag
+   * @param time the time to be set, defaults to now
+   */
+  public async touch(time: Date = new Date()): Promise<void> {
+    await this.fileSystem.writeFile(this.toString(), new Uint8Array(), {
+      append: true,
+    });
+    await this.fileSystem.utime(this.toString(), time, time);
+  }
+
+  /**
+   * create this file if it does not exist and set its access and modification times synchronously
+   * requires: --allow-write flag
+   * @param time the time to be set, defaults to now
+   */
+  public touchSync(time: Date = new Date()): void {
+    this.fileSystem.writeFileSync(this.toString(), new Uint8Array(), {
+      append: true,
+    });
+    this.fileSystem.utimeSync(this.toString(), time, time);
+  }
+
+  /**
+   * make this path a symlink pointing to `target`, relative targets are kept relative
+   * ```ts
+   * await new Path("/srv/app/current").symlinkTo("release-42", { replace: true });
+   * ```
+   * requires: --allow-write flag
+   * @param target what the link points to
+   * @param options the link type on windows and whether an existing entry is atomically replaced
+   */
+  public async symlinkTo(
+    target: Path | PurePath | string,
+    { type, replace = false }: SymlinkOptions = {},
+  ): Promise<void> {
+    const tp = this.coerce(target).toString();
+    const opts = type ? { type } : undefined;
+    if (!replace) {
+      await this.fileSystem.symlink(tp, this.toString(), opts);
+      return;
+    }
+    const fs = this.fileSystem;
+    const tmp = await this.createSibling((tmp) => fs.symlink(tp, tmp, opts));
+    try {
+      await fs.rename(tmp, this.toString());
+    } catch (e) {
+      await fs.remove(tmp).catch(() => {});
+      throw e;
+    }
+  }
+
+  /**
+   * make this path a symlink pointing to `target` synchronously, see `symlinkTo`
+   * requires: --allow-write flag
+   * @param target what the link points to
+   * @param options the link type on windows and whether an existing entry is atomically replaced
+   */
+  public symlinkToSync(
+    target: Path | PurePath | string,
+    { type, replace = false }: SymlinkOptions = {},
+  ): void {
+    const tp = this.coerce(target).toString();
+    const opts = type ? { type } : undefined;
+    if (!replace) {
+      this.fileSystem.symlinkSync(tp, this.toString(), opts);
+      return;
+    }
+    const fs = this.fileSystem;
+    const tmp = this.createSiblingSync((tmp) => fs.symlinkSync(tp, tmp, opts));
+    try {
+      fs.renameSync(tmp, this.toString());
+    } catch (e) {
+      try {
+        fs.removeSync(tmp);
+      } catch {
+        // the temporary link may already be gone
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * make this path a hard link to `target`
+   * requires: --allow-read and --allow-write flags
+   * @param target the existing file to link to
+   */
+  public async linkTo(target: Path | PurePath | string): Promise<void> {
+    await this.fileSystem.link(this.coerce(target).toString(), this.toString());
+  }
+
+  /**
+   * make this path a hard link to `target` synchronously
+   * requires: --allow-read and --allow-write flags
+   * @param target the existing file to link to
+   */
+  public linkToSync(target: Path | PurePath | string): void {
+    this.fileSystem.linkSync(this.coerce(target).toString(), this.toString());
+  }
+
+  /**
+   * read the target of this symlink as it is stored in the link
+   * requires: --allow-read flag
+   */
+  public async readLink(): Promise<Path> {
+    return this.derive(
+      new PurePath(
+        await this.fileSystem.readLink(this.toString()),
+        this.separatorList,
+      ),
+    );
+  }
+
+  /**
+   * read the target of this symlink as it is stored in the link synchronously
+   * requires: --allow-read flag
+   */
+  public readLinkSync(): Path {
+    return this.derive(
+      new PurePath(
+        this.fileSystem.readLinkSync(this.toString()),
+        this.separatorList,
+      ),
+    );
+  }
+
+  /**
+   * Checks if the path is a symlink whose target does not exist
+   * requires: --allow-read flag
+   */
+  get isBrokenLink(): boolean {
+    return this.isSymlink && !this.exists;
+  }
+
+  /**
+   * Checks if the path is a symlink whose target does not exist without blocking
+   * requires: --allow-read flag
+   */
+  public async isBrokenLinkAsync(): Promise<boolean> {
+    return (await this.isSymlinkAsync()) && !(await this.existsAsync());
+  }
+
+  /**
+   * where a symlink read from `link` points to
+   */
+  private static linkHop(link: Path, raw: string): LinkHop {
+    const rp = new PurePath(raw, link.separatorList);
+    const target = rp.root.kind === "relative"
+      ? rp.resolve(link.pure.parent)
+      : rp.resolve(link.pure);
+    return { link, target: link.derive(target) };
+  }
+
+  /**
+   * follow a chain of symlinks one hop at a time, only the last element of each hop is followed
+   * ```ts
+   * const { hops, target } = await new Path("/srv/app/current").resolveLinks();
+   * hops.forEach(({ link, target }) => console.log(`${link} -> ${target}`));
+   * ```
+   * requires: --allow-read flag
+   * @returns every hop taken, where the chain ends and whether it is broken or cyclic
+   */
+  public async resolveLinks(): Promise<LinkResolution> {
+    const hops = new Array<LinkHop>();
+    const seen = new Set<string>();
+    let current = this.resolve();
+    while (true) {
+      let info: Deno.FileInfo;
+      try {
+        info = await this.fileSystem.lstat(current.toString());
+      } catch (e) {
+        if (e instanceof Deno.errors.NotFound) {
+          return { hops, target: current, broken: true, cycle: false };
+        }
+        throw e;
+      }
+      if (!info.isSymlink) {
+        return { hops, target: current, broken: false, cycle: false };
+      }
+      seen.add(current.toString());
+      const hop = Path.linkHop(
+        current,
+        await this.fileSystem.readLink(current.toString()),
+      );
+      hops.push(hop);
+      if (seen.has(hop.target.toString())) {
+        return { hops, target: hop.target, broken: false, cycle: true };
+      }
+      current = hop.target;
+    }
+  }
+
+  /**
+   * follow a chain of symlinks one hop at a time synchronously, see `resolveLinks`
+   * requires: --allow-read flag
+   * @returns every hop taken, where the chain ends and whether it is broken or cyclic
+   */
+  public resolveLinksSync(): LinkResolution {
+    const hops = new Array<LinkHop>();
+    const seen = new Set<string>();
+    let current = this.resolve();
+    while (true) {
+      let info: Deno.FileInfo;
+      try {
+        info = this.fileSystem.lstatSync(current.toString());
+      } catch (e) {
+        if (e instanceof Deno.errors.NotFound) {
+          return { hops, target: current, broken: true, cycle: false };
+        }
+        throw e;
+      }
+      if (!info.isSymlink) {
+        return { hops, target: current, broken: false, cycle: false };
+      }
+      seen.add(current.toString());
+      const hop = Path.linkHop(
+        current,
+        this.fileSystem.readLinkSync(current.toString()),
+      );
+      hops.push(hop);
+      if (seen.has(hop.target.toString())) {
+        return { hops, target: hop.target, broken: false, cycle: true };
+      }
+      current = hop.target;
+    }
+  }
+
+  /**
+   * request the inner representation of the path inside the class
+   * the returned array is frozen, use the setter to change the elements
+   * breaking: mutating the returned array used to change the path, it now throws a TypeError
+   */
+  get elements(): readonly string[] {
+    return this.pure.elements;
+  }
+
+  /**
+   * set the inner representation of the path inside the class
+   */
+  set elements(e: readonly string[]) {
+    this.pure = this.pure.withElements(e);
+  }
+
+  /**
+   * whether this path starts at the filesystem root
+   * @deprecated will be removed on 3.0.0 in favor of `root` and `isAbsolute`
+   */
+  get trailingSlash(): boolean {
+    return this.pure.root.kind === "root";
+  }
+
+  set trailingSlash(ts: boolean) {
+    const kind = this.pure.root.kind;
+    if (ts && kind === "relative") {
+      this.pure = this.pure.withRoot({
+        kind: "root",
+        verbatim: false,
+        absolute: !_isWindowsSeparators(this.separatorList),
+      });
+    } else if (!ts && kind === "root") {
+      this.pure = this.pure.withRoot({
+        kind: "relative",
+        verbatim: false,
+        absolute: false,
+      });
+    }
+  }
+
+  /**
+   * the root this path is anchored at
+   * ```ts
+   * const path = new Path("\\\\server\\share\\file.txt", WINDOWS_SEPS);
+   * path.root; // { kind: "unc", server: "server", share: "share", ... }
+   * ```
+   */
+  get root(): PathRoot {
+    return this.pure.root;
+  }
+
+  /**
+   * whether this path is fully anchored, on windows this requires a drive, UNC share or device
+   */
+  get isAbsolute(): boolean {
+    return this.pure.isAbsolute;
+  }
+
+  /**
+   * returns the drive of this path or null, the drive of UNC and device paths is their whole root
+   * ```ts
+   * new Path("C:\\Users", WINDOWS_SEPS).drive; // "C:"
+   * new Path("\\\\server\\share\\dir", WINDOWS_SEPS).drive; // "\\\\server\\share"
+   * ```
+   */
+  get drive(): string | null {
+    return this.pure.drive;
+  }
+
+  set separatorList(sl: string[]) {
+    this.pure = this.pure.withSeparators(sl);
+  }
+
+  get separatorList(): string[] {
+    return this.pure.separatorList;
+  }
+
+  public static fromCWD(): Path {
+    return new Path(Path.defaultFileSystem.cwd());
+  }
+
+  /**
+   * build a path from a `file:` URL, see `PurePath.fromFileUrl`
+   * @param url the URL to be converted
+   * @param separators allows for overriding of the separators, defaults to the host's
+   */
+  public static fromFileUrl(url: URL | string, separators?: string[]): Path {
+    return Path.fromPure(PurePath.fromFileUrl(url, separators));
+  }
+
+  /**
+   * convert this path into a `file:` URL, see `PurePath.toFileUrl`
+   */
+  public toFileUrl(): URL {
+    return this.pure.toFileUrl();
+  }
+
+  /**
+   * the directory containing a local module, useful for loading resources that ship with it
+   * ```ts
+   * const schema = Path.fromImportMeta(import.meta, "schemas", "config.json");
+   * ```
+   * @param meta the `import.meta` of the module
+   * @param parts path fragments joined onto the module's directory
+   * @throws TypeError if the module was not loaded from a `file:` URL
+   */
+  public static fromImportMeta(
+    meta: { url: string },
+    ...parts: string[]
+  ): Path {
+    return Path.fromPure(PurePath.fromFileUrl(meta.url).parent.join(...parts));
+  }
+
+  /**
+   * build a path from a string written by a user, e.g. in a config file, expanding a leading `~`
+   * and environment variables, `$VAR`, `${VAR}` and `${VAR:-default}` for posix separators
+   * and `%VAR%` for windows ones
+   * ```ts
+   * Path.expand("$XDG_CACHE_HOME/app", { env: { XDG_CACHE_HOME: "/tmp/cache" } }); // /tmp/cache/app
+   * Path.expand("%APPDATA%\\app", {}, WINDOWS_SEPS);
+   * ```
+   * requires: --allow-env flag unless `env` is given
+   * @param path the string to be expanded
+   * @param options the variables to expand and whether unset ones throw
+   * @param separators allows for overriding of the separators, defaults to the host's
+   * @throws UndefinedVariableError if `strict` is set and a variable is not set
+   */
+  public static expand(
+    path: string,
+    options: ExpandOptions = {},
+    separators?: string[],
+  ): Path {
+    const env = _environment(options.env);
+    const windows = _isWindowsSeparators(
+      new PurePath(undefined, separators).separatorList,
+    );
+    return new Path(
+      _expandVars(path, env, windows, options.strict ?? false),
+      separators,
+    ).expandUser({ ...options, env });
+  }
+
+  /**
+   * replace a leading `~` with the home directory of the current user and `~user` with the
+   * home directory of that user where it can be found, other paths are returned unchanged
+   * requires: --allow-env flag unless `env` is given, --allow-read flag for `~user` on posix
+   * @param options the variables the home directory is read from and whether a missing one throws
+   * @returns a new Path
+   * @throws UndefinedVariableError if `strict` is set and the home directory is not set
+   */
+  public expandUser(options: ExpandOptions = {}): Path {
+    const [first, ...rest] = this.pure.elements;
+    if (this.pure.root.kind !== "relative" || !first?.startsWith("~")) {
+      return this.derive(this.pure);
+    }
+    const windows = _isWindowsSeparators(this.separatorList);
+    const env = _environment(options.env);
+    const home = this.userHome(first.substring(1), env, windows);
+    if (home === undefined) {
+      if (options.strict && first === "~") {
+        throw new UndefinedVariableError(_homeVar(windows));
+      }
+      return this.derive(this.pure);
+    }
+    const hp = new PurePath(home, this.separatorList);
+    return this.derive(
+      hp.withElements([...hp.elements.filter((e) => e !== ""), ...rest]),
+    );
+  }
+
+  /**
+   * the home directory of a user, the current one if `user` is empty
+   * other users are looked up in `/etc/passwd` on posix, on windows their profile
+   * is assumed to be next to the one of the current user
+   */
+  private userHome(
+    user: string,
+    env: Environment,
+    windows: boolean,
+  ): string | undefined {
+    const home = _homeDir(env, windows);
+    const current = windows
+      ? _lookupVar(env, "USERNAME", true)
+      : env.USER ?? env.LOGNAME;
+    if (!user || user === current) {
+      return home;
+    }
+    if (windows) {
+      return home &&
+        new PurePath(home, this.separatorList).parent.join(user).toString();
+    }
+    try {
+      const passwd = this.fileSystem.readFileSync("/etc/passwd");
+      return _passwdHome(new TextDecoder().decode(passwd), user);
+    } catch (e) {
+      // do not hide permission errors from the user
+      if (e instanceof Deno.errors.PermissionDenied) {
+        throw e;
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * the reverse of `expandUser`, paths inside of the home directory of the current user
+   * are rewritten to start with `~` which is handy to display them
+   * ```ts
+   * new Path("/home/me/notes.md").contractUser({ env: { HOME: "/home/me" } }); // ~/notes.md
+   * ```
+   * requires: --allow-env flag unless `env` is given
+   * @param options the variables the home directory is read from
+   * @returns a new Path
+   */
+  public contractUser(options: Pick<ExpandOptions, "env"> = {}): Path {
+    const windows = _isWindowsSeparators(this.separatorList);
+    const home = _homeDir(_environment(options.env), windows);
+    if (!home) {
+      return this.derive(this.pure);
+    }
+    const hp = new PurePath(home, this.separatorList).normalize();
+    if (!hp.isAbsolute || !hp.elements.length || !this.pure.startsWith(hp)) {
+      return this.derive(this.pure);
+    }
+    const rest = this.pure.normalize().elements.slice(hp.elements.length);
+    return this.derive(
+      new PurePath(undefined, this.separatorList).withElements(["~", ...rest]),
+    );
+  }
+
+  /**
+   * create the specified path if parents is true any needed paths will be created
+   * @param path the desired path
+   * @param parents whether or not to create the structure needed to achieve the final path
+   * @returns `true` on success and `false` on failure
+   *
+   */
+  public mkDirSync(parents: boolean = false): boolean {
+    if (!parents) {
+      this.fileSystem.mkdirSync(this.toString());
+      return true;
+    }
+    // if the path already exists and is a dir there is nothing to do
+    if (this.exists && this.isDir) {
+      return true;
+    }
+    const target = this.resolve();
+    // find the last part of the path that is valid
+    const vp = target.findLastValidNodeSync();
+    // take the path from the valid node to the desired path
+    const needs = target.relativeTo(vp).elements.filter((e) => e !== ".");
+    // create the needed paths
+    for (let i = 0; i < needs.length; i++) {
+      vp.push(needs[i]);
+      this.fileSystem.mkdirSync(vp.toString());
+    }
+    return true;
+  }
+
+  public async mkDir(parents: boolean = false): Promise<boolean> {
+    if (!parents) {
+      await this.fileSystem.mkdir(this.toString());
+      return true;
+    }
+    // if the path already exists and is a dir there is nothing to do
+    if (this.exists && this.isDir) {
+      return true;
+    }
+    const target = this.resolve();
+    // find the last part of the path that is valid
+    const vp = target.findLastValidNodeSync();
+    // take the path from the valid node to the desired path
+    const needs = target.relativeTo(vp).elements.filter((e) => e !== ".");
+    // create the needed paths
+    for (let i = 0; i < needs.length; i++) {
+      vp.push(needs[i]);
+      await this.fileSystem.mkdir(vp.toString());
+    }
+    return true;
+  }
+
+  /**
+   * remove self
+   * @return true if success false otherwise
+   */
+  public async rm(recursive: boolean = false): Promise<void> {
+    await this.fileSystem.remove(this.toString(), { recursive });
+    return;
+  }
+
+  /**
+   * remove self sync
+   * @return true if success false otherwise
+   */
+  public rmSync(recursive: boolean = false): void {
+    this.fileSystem.removeSync(this.toString(), { recursive });
+  }
+
+  /**
+   * read the whole file as an utf-8 string
+   * requires: --allow-read flag
+   */
+  public async readText(): Promise<string> {
+    return new TextDecoder().decode(
+      await this.fileSystem.readFile(this.toString()),
+    );
+  }
+
+  /**
+   * read the whole file as an utf-8 string synchronously
+   * requires: --allow-read flag
+   */
+  public readTextSync(): string {
+    return new TextDecoder().decode(
+      this.fileSystem.readFileSync(this.toString()),
+    );
+  }
+
+  /**
+   * read the whole file as bytes
+   * requires: --allow-read flag
+   */
+  public async readBytes(): Promise<Uint8Array> {
+    return await this.fileSystem.readFile(this.toString());
+  }
+
+  /**
+   * read the whole file as bytes synchronously
+   * requires: --allow-read flag
+   */
+  public readBytesSync(): Uint8Array {
+    return this.fileSystem.readFileSync(this.toString());
+  }
+
+  /**
+   * read and parse the file as json, the result is not validated against `T`
+   * requires: --allow-read flag
+   */
+  public async readJson<T = unknown>(): Promise<T> {
+    return JSON.parse(await this.readText()) as T;
+  }
+
+  /**
+   * read and parse the file as json synchronously, the result is not validated against `T`
+   * requires: --allow-read flag
+   */
+  public readJsonSync<T = unknown>(): T {
+    return JSON.parse(this.readTextSync()) as T;
+  }
+
+  /**
+   * create the sibling temporary entry an atomic replacement of this path is prepared in,
+   * names are retried while `create` fails because one is taken by a concurrent writer
+   * @param create creates the entry at the given name, it must fail if the name exists
+   * @returns the name of the created entry
+   */
+  private async createSibling(
+    create: (tmp: string) => Promise<void>,
+  ): Promise<string> {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const tmp = Path.siblingCandidate(this.pure, "tmp");
+      try {
+        await create(tmp);
+        return tmp;
+      } catch (e) {
+        if (!(e instanceof Deno.errors.AlreadyExists)) {
+          await this.fileSystem.remove(tmp).catch(() => {});
+          throw e;
+        }
+      }
+    }
+    throw new Error(
+      `could not create a unique temporary entry next to ${this.toString()}`,
+    );
+  }
+
+  /**
+   * create the sibling temporary entry for an atomic replacement synchronously, see `createSibling`
+   * @param create creates the entry at the given name, it must fail if the name exists
+   * @returns the name of the created entry
+   */
+  private createSiblingSync(create: (tmp: string) => void): string {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const tmp = Path.siblingCandidate(this.pure, "tmp");
+      try {
+        create(tmp);
+        return tmp;
+      } catch (e) {
+        if (!(e instanceof Deno.errors.AlreadyExists)) {
+          try {
+            this.fileSystem.removeSync(tmp);
+          } catch {
+            // the temporary entry may not have been created
+          }
+          throw e;
+        }
+      }
+    }
+    throw new Error(
+      `could not create a unique temporary entry next to ${this.toString()}`,
+    );
+  }
+
+  /**
+   * the permission bits of the file an atomic write replaces, undefined if there is none
+   */
+  private async replacedMode(): Promise<number | undefined> {
+    try {
+      const { mode } = await this.fileSystem.stat(this.toString());
+      return mode === null ? undefined : mode & 0o7777;
+    } catch (e) {
+      if (e instanceof Deno.errors.NotFound) {
+        return undefined;
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * the permission bits of the file an atomic write replaces synchronously
+   */
+  private replacedModeSync(): number | undefined {
+    try {
+      const { mode } = this.fileSystem.statSync(this.toString());
+      return mode === null ? undefined : mode & 0o7777;
+    } catch (e) {
+      if (e instanceof Deno.errors.NotFound) {
+        return undefined;
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * write bytes to this file replacing its contents
+   * ```ts
+   * await new Path("out/data.bin").writeBytes(bytes, { atomic: true, parents: true });
+   * ```
+   * requires: --allow-write flag
+   * @param data the new contents
+   * @param options atomic replacement, parent creation and the file mode
+   */
+  public async writeBytes(
+    data: Uint8Array,
+    { atomic = false, parents = false, mode }: WriteOptions = {},
+  ): Promise<void> {
+    if (parents) {
+      await this.derive(this.pure.parent).mkDir(true);
+    }
+    if (!atomic) {
+      await this.fileSystem.writeFile(this.toString(), data, { mode });
+      return;
+    }
+    const fs = this.fileSystem;
+    // the replaced file keeps its permissions unless new ones are asked for
+    const keep = mode ?? await this.replacedMode();
+    const tmp = await this.createSibling((tmp) =>
+      fs.writeFile(tmp, data, { mode: keep, createNew: true })
+    );
+    try {
+      await fs.rename(tmp, this.toString());
+    } catch (e) {
+      await fs.remove(tmp).catch(() => {});
+      throw e;
+    }
+  }
+
+  /**
+   * write bytes to this file replacing its contents synchronously, see `writeBytes`
+   * requires: --allow-write flag
+   * @param data the new contents
+   * @param options atomic replacement, parent creation and the file mode
+   */
+  public writeBytesSync(
+    data: Uint8Array,
+    { atomic = false, parents = false, mode }: WriteOptions = {},
+  ): void {
+    if (parents) {
+      this.derive(this.pure.parent).mkDirSync(true);
+    }
+    if (!atomic) {
+      this.fileSystem.writeFileSync(this.toString(), data, { mode });
+      return;
+    }
+    const fs = this.fileSystem;
+    // the replaced file keeps its permissions unless new ones are asked for
+    const keep = mode ?? this.replacedModeSync();
+    const tmp = this.createSiblingSync((tmp) =>
+      fs.writeFileSync(tmp, data, { mode: keep, createNew: true })
+    );
+    try {
+      fs.renameSync(tmp, this.toString());
+    } catch (e) {
+      try {
+        fs.removeSync(tmp);
+      } catch {
+        // the temporary file may already be gone
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * write an utf-8 string to this file replacing its contents
+   * requires: --allow-write flag
+   * @param text the new contents
+   * @param options atomic replacement, parent creation and the file mode
+   */
+  public async writeText(text: string, options?: WriteOptions): Promise<void> {
+    await this.writeBytes(new TextEncoder().encode(text), options);
+  }
+
+  /**
+   * write an utf-8 string to this file replacing its contents synchronously
+   * requires: --allow-write flag
+   * @param text the new contents
+   * @param options atomic replacement, parent creation and the file mode
+   */
+  public writeTextSync(text: string, options?: WriteOptions): void {
+    this.writeBytesSync(new TextEncoder().encode(text), options);
+  }
+
+  /**
+   * serialize a value as json and write it to this file replacing its contents
+   * requires: --allow-write flag
+   * @param value the value to be serialized
+   * @param options atomic replacement, parent creation, the file mode and the indentation
+   */
+  public async writeJson(
+    value: unknown,
+    { space, ...options }: WriteOptions & { space?: string | number } = {},
+  ): Promise<void> {
+    await this.writeText(JSON.stringify(value, null, space) + "\n", options);
+  }
+
+  /**
+   * serialize a value as json and write it to this file replacing its contents synchronously
+   * requires: --allow-write flag
+   * @param value the value to be serialized
+   * @param options atomic replacement, parent creation, the file mode and the indentation
+   */
+  public writeJsonSync(
+    value: unknown,
+    { space, ...options }: WriteOptions & { space?: string | number } = {},
+  ): void {
+    this.writeTextSync(JSON.stringify(value, null, space) + "\n", options);
+  }
+
+  /**
+   * append an utf-8 string to this file, creating it if needed
+   * requires: --allow-write flag
+   * @param text the text to be appended
+   * @param options parent creation and the file mode
+   */
+  public async appendText(
+    text: string,
+    { parents = false, mode }: Omit<WriteOptions, "atomic"> = {},
+  ): Promise<void> {
+    if (parents) {
+      await this.derive(this.pure.parent).mkDir(true);
+    }
+    await this.fileSystem.writeFile(
+      this.toString(),
+      new TextEncoder().encode(text),
+      { append: true, mode },
+    );
+  }
+
+  /**
+   * append an utf-8 string to this file synchronously, creating it if needed
+   * requires: --allow-write flag
+   * @param text the text to be appended
+   * @param options parent creation and the file mode
+   */
+  public appendTextSync(
+    text: string,
+    { parents = false, mode }: Omit<WriteOptions, "atomic"> = {},
+  ): void {
+    if (parents) {
+      this.derive(this.pure.parent).mkDirSync(true);
+    }
+    this.fileSystem.writeFileSync(
+      this.toString(),
+      new TextEncoder().encode(text),
+      { append: true, mode },
+    );
+  }
+
+  /**
+   * the digest of this file's contents as lowercase hex
+   * the file is streamed through the hasher in chunks, so it is never held in memory at once
+   * requires: --allow-read flag
+   * @param options the digest algorithm
+   */
+  public async hash(
+    { algorithm = "SHA-256" }: HashOptions = {},
+  ): Promise<string> {
+    const contents = await this.fileSystem.readable(this.toString());
+    return await _digestHex(algorithm, contents);
+  }
+
+  /**
+   * a digest over every file below this directory, meant for cache keys
+   * files are recorded by their `/` separated path relative to this directory in sorted order
+   * together with the digest of their contents, symlinks are not followed and their target
+   * is hashed instead, so identical trees hash identically wherever they are located
+   * empty directories do not change the digest, files are streamed as `hash` does
+   * ```ts
+   * const key = await new Path("src").hashTree({ exclude: ["node_modules", "*.log"] });
+   * ```
+   * requires: --allow-read flag
+   * @param options the digest algorithm, whether modes are included and which files are hashed
+   */
+  public async hashTree(
+    { algorithm = "SHA-256", modes = false, include, exclude = [] }:
+      HashTreeOptions = {},
+  ): Promise<string> {
+    const fs = this.fileSystem;
+    const relative = (p: Path) => p.pure.relativeTo(this.pure);
+    const matches = (rp: PurePath, patterns: string[]) =>
+      patterns.some((pattern) => rp.matches(pattern));
+    const records = new Array<{ name: string; record: string }>();
+    const walker = this.walk({
+      includeDirs: false,
+      skip: (p) => matches(relative(p), exclude),
+    });
+    for await (const p of walker) {
+      const rp = relative(p);
+      if (include && !matches(rp, include)) {
+        continue;
+      }
+      const info = await fs.lstat(p.toString());
+      const contents = info.isSymlink
+        ? [new TextEncoder().encode(await fs.readLink(p.toString()))]
+        : await fs.readable(p.toString());
+      const name = rp.toString("", "", "/");
+      const fields = [
+        info.isSymlink ? "link" : "file",
+        modes ? ((info.mode ?? 0) & 0o777).toString(8) : "",
+        await _digestHex(algorithm, contents),
+        name,
+      ];
+      // json escapes control characters so names containing newlines can not forge records
+      records.push({ name, record: JSON.stringify(fields) + "\n" });
+    }
+    // compare code units rather than using localeCompare so the order never depends on the locale
+    records.sort((a, b) => a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+    const manifest = new TextEncoder().encode(
+      records.map((r) => r.record).join(""),
+    );
+    return await _digestHex(algorithm, [manifest]);
+  }
+
+  /**
+   * checks the overwrite policy against an existing destination
+   * @returns whether the destination should be written
+   */
+  private static async canOverwrite(
+    fs: FileSystem,
+    info: Deno.FileInfo,
+    dest: string,
+    overwrite: OverwritePolicy,
+  ): Promise<boolean> {
+    let destInfo: Deno.FileInfo;
+    try {
+      destInfo = await fs.lstat(dest);
+    } catch (e) {
+      if (e instanceof Deno.errors.NotFound) {
+        return true;
+      }
+      throw e;
+    }
+    switch (overwrite) {
+      case "error":
+        throw new Deno.errors.AlreadyExists(`${dest} already exists`);
+      case "skip":
+        return false;
+      case "replace":
+        return true;
+      case "replaceIfNewer":
+        return !info.mtime || !destInfo.mtime || info.mtime > destInfo.mtime;
+    }
+  }
+
+  /**
+   * copy the mode and timestamps of the source onto the destination
+   */
+  private static async preserveInfo(
+    fs: FileSystem,
+    info: Deno.FileInfo,
+    dest: string,
+  ): Promise<void> {
+    if (info.mode !== null) {
+      await fs.chmod(dest, info.mode & 0o7777);
+    }
+    const now = new Date();
+    await fs.utime(dest, info.atime ?? now, info.mtime ?? now);
+  }
+
+  /**
+   * remove an existing destination that is not a directory, writing to it instead would
+   * follow a symlink out of the destination tree
+   */
+  private static async unlinkDest(fs: FileSystem, dest: string): Promise<void> {
+    try {
+      if ((await fs.lstat(dest)).isDirectory) {
+        return;
+      }
+    } catch (e) {
+      if (e instanceof Deno.errors.NotFound) {
+        return;
+      }
+      throw e;
+    }
+    await fs.remove(dest);
+  }
+
+  /**
+   * recursively copy a single entry, see `copyTo`
+   * @returns whether the entry was written, false if it was skipped
+   */
+  private static async copyEntry(
+    fs: FileSystem,
+    src: PurePath,
+    dest: PurePath,
+    options: Required<CopyOptions>,
+  ): Promise<boolean> {
+    let info = await fs.lstat(src.toString());
+    if (info.isSymlink) {
+      if (options.symlinks === "skip") {
+        return false;
+      }
+      if (options.symlinks === "copy") {
+        if (
+          !(await Path.canOverwrite(
+            fs,
+            info,
+            dest.toString(),
+            options.overwrite,
+          ))
+        ) {
+          return false;
+        }
+        const target = await fs.readLink(src.toString());
+        await fs.remove(dest.toString()).catch(() => {});
+        await fs.symlink(target, dest.toString());
+        return true;
+      }
+      info = await fs.stat(src.toString());
+    }
+    if (info.isDirectory) {
+      try {
+        await fs.mkdir(dest.toString());
+      } catch (e) {
+        if (!(e instanceof Deno.errors.AlreadyExists)) {
+          throw e;
+        }
+        // directories are merged into existing ones, a symlink is replaced like a file
+        // so nothing is written through it
+        if ((await fs.lstat(dest.toString())).isSymlink) {
+          if (
+            !(await Path.canOverwrite(
+              fs,
+              info,
+              dest.toString(),
+              options.overwrite,
+            ))
+          ) {
+            return false;
+          }
+          await fs.remove(dest.toString());
+          await fs.mkdir(dest.toString());
+        }
+      }
+      for await (const entry of fs.readDir(src.toString())) {
+        await Path.copyEntry(
+          fs,
+          src.join(entry.name),
+          dest.join(entry.name),
+          options,
+        );
+      }
+    } else if (
+      await Path.canOverwrite(fs, info, dest.toString(), options.overwrite)
+    ) {
+      await Path.unlinkDest(fs, dest.toString());
+      await fs.copyFile(src.toString(), dest.toString());
+    } else {
+      return false;
+    }
+    if (options.preserve) {
+      await Path.preserveInfo(fs, info, dest.toString());
+    }
+    return true;
+  }
+
+  /**
+   * copy this file or directory tree to `dest`, directories are merged into existing ones
+   * existing files and symlinks that are replaced are removed first, so a symlink at the
+   * destination is never written through
+   * ```ts
+   * await new Path("assets").copyTo("dist/assets", { overwrite: "replaceIfNewer" });
+   * ```
+   * requires: --allow-read and --allow-write flags
+   * @param dest the destination path, not the directory to copy into
+   * @param options overwrite policy, whether mode and times are kept and how symlinks are handled
+   * @throws Error if `dest` is inside this directory
+   * @returns the destination as a new Path, null if nothing was copied because the overwrite
+   * policy kept an existing destination or this is a skipped symlink
+   */
+  public async copyTo(
+    dest: Path | PurePath | string,
+    { overwrite = "error", preserve = false, symlinks = "copy" }: CopyOptions =
+      {},
+  ): Promise<Path | null> {
+    const dp = this.coerce(dest);
+    const cwd = this.fileSystem.cwd();
+    if (dp.resolve(cwd).startsWith(this.pure.resolve(cwd))) {
+      throw new Error(`can not copy ${this.toString()} into itself`);
+    }
+    const copied = await Path.copyEntry(this.fileSystem, this.pure, dp, {
+      overwrite,
+      preserve,
+      symlinks,
+    });
+    return copied ? this.derive(dp) : null;
+  }
+
+  /**
+   * throws if `dest` is this path, inside of it or one of its ancestors,
+   * replacing such a destination would delete the source
+   */
+  private assertMovable(dest: PurePath): void {
+    const cwd = this.fileSystem.cwd();
+    const sp = this.pure.resolve(cwd);
+    const dp = dest.resolve(cwd);
+    // only changing the case of a name is a valid rename on case insensitive filesystems
+    const caseRename = sp.equals(dp) && !sp.equals(dp, { caseSensitive: true });
+    if (!caseRename && (dp.startsWith(sp) || sp.startsWith(dp))) {
+      throw new Error(
+        `can not move ${this.toString()} onto itself or one of its ancestors or descendants`,
+      );
+    }
+  }
+
+  /**
+   * a random name next to `path` for a short lived entry, the random space is large enough
+   * that a collision is rare but callers still have to retry on one
+   */
+  private static siblingCandidate(path: PurePath, suffix: string): string {
+    return path.parent.join(
+      Path.randomName({
+        rngScalar: 2 ** 32,
+        prefix: "." + path.name,
+        suffix,
+      }),
+    ).toString();
+  }
+
+  /**
+   * rename an existing destination to a free sibling name, by default only directories are
+   * moved as rename can not replace a directory that is not empty
+   * @param anyKind whether files and symlinks are moved aside too
+   * @returns the name it was moved to, undefined if there was nothing to move
+   */
+  private static async setAside(
+    fs: FileSystem,
+    dest: PurePath,
+    anyKind = false,
+  ): Promise<string | undefined> {
+    try {
+      const info = await fs.lstat(dest.toString());
+      if (!anyKind && !info.isDirectory) {
+        return undefined;
+      }
+    } catch (e) {
+      if (e instanceof Deno.errors.NotFound) {
+        return undefined;
+      }
+      throw e;
+    }
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const aside = Path.siblingCandidate(dest, "old");
+      try {
+        await fs.lstat(aside);
+      } catch (e) {
+        if (!(e instanceof Deno.errors.NotFound)) {
+          throw e;
+        }
+        await fs.rename(dest.toString(), aside);
+        return aside;
+      }
+    }
+    throw new Error(`could not find a free name to move ${dest} aside`);
+  }
+
+  /**
+   * move an existing destination aside synchronously, see `setAside`
+   * @returns the name it was moved to, undefined if there was nothing to move
+   */
+  private static setAsideSync(
+    fs: FileSystem,
+    dest: PurePath,
+    anyKind = false,
+  ): string | undefined {
+    try {
+      const info = fs.lstatSync(dest.toString());
+      if (!anyKind && !info.isDirectory) {
+        return undefined;
+      }
+    } catch (e) {
+      if (e instanceof Deno.errors.NotFound) {
+        return undefined;
+      }
+      throw e;
+    }
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const aside = Path.siblingCandidate(dest, "old");
+      try {
+        fs.lstatSync(aside);
+      } catch (e) {
+        if (!(e instanceof Deno.errors.NotFound)) {
+          throw e;
+        }
+        fs.renameSync(dest.toString(), aside);
+        return aside;
+      }
+    }
+    throw new Error(`could not find a free name to move ${dest} aside`);
+  }
+
+  /**
+   * move this file or directory tree to `dest`, falling back to copy and delete
+   * when the destination is on another device
+   * requires: --allow-read and --allow-write flags
+   * an existing destination is only removed once the move succeeded, if it fails
+   * whatever was written is removed and the destination is restored
+   * @param dest the destination path, not the directory to move into
+   * @param options overwrite policy and for the cross device fallback whether mode and times
+   * are kept and how symlinks are handled
+   * @throws Error if `dest` is this path, inside of it or one of its ancestors
+   * @returns the destination as a new Path, null if the overwrite policy kept an existing
+   * destination, this path is left in place then
+   */
+  public async moveTo(
+    dest: Path | PurePath | string,
+    { overwrite = "error", preserve = true, symlinks = "copy" }: CopyOptions =
+      {},
+  ): Promise<Path | null> {
+    const dp = this.coerce(dest);
+    this.assertMovable(dp);
+    const fs = this.fileSystem;
+    const info = await fs.lstat(this.toString());
+    if (!(await Path.canOverwrite(fs, info, dp.toString(), overwrite))) {
+      return null;
+    }
+    let aside = await Path.setAside(fs, dp);
+    let crossDevice = false;
     try {
-      return Deno.statSync(this.toString()).isSymlink;
+      try {
+        await fs.rename(this.toString(), dp.toString());
+      } catch (e) {
+        if (!isCrossDevice(e)) {
+          throw e;
+        }
+        // the copy starts from an empty destination so a failure can remove all of it
+        aside ??= await Path.setAside(fs, dp, true);
+        crossDevice = true;
+        await Path.copyEntry(fs, this.pure, dp, {
+          overwrite: "replace",
+          preserve,
+          symlinks,
+        });
+      }
     } catch (e) {
-      // do not hide permission errors from the user
-      if (e instanceof Deno.errors.PermissionDenied) {
-        throw e;
+      if (crossDevice || aside) {
+        await fs.remove(dp.toString(), { recursive: true }).catch(() => {});
       }
-      return false;
+      if (aside) {
+        await fs.rename(aside, dp.toString());
+      }
+      throw e;
     }
+    if (aside) {
+      await fs.remove(aside, { recursive: true });
+    }
+    if (crossDevice) {
+      await fs.remove(this.toString(), { recursive: true });
+    }
+    return this.derive(dp);
   }
 
   /**
-   * request the inner representation of the path inside the class
+   * rename this file or directory keeping it in the same directory
+   * requires: --allow-read and --allow-write flags
+   * @param newName the new name, it must not contain separators
+   * @param options overwrite policy for an existing entry named `newName`
+   * @returns the renamed path as a new Path, null if the overwrite policy kept an existing entry
    */
-  get elements(): string[] {
-    return this.pathElements;
+  public async rename(
+    newName: string,
+    options?: CopyOptions,
+  ): Promise<Path | null> {
+    return await this.moveTo(this.pure.withName(newName), options);
   }
 
   /**
-   * set the inner representation of the path inside the class
+   * checks the overwrite policy against an existing destination synchronously
+   * @returns whether the destination should be written
    */
-  set elements(e: string[]) {
-    this.pathElements = e;
-  }
-
-  set separatorList(sl: string[]) {
-    this.separators = sl;
+  private static canOverwriteSync(
+    fs: FileSystem,
+    info: Deno.FileInfo,
+    dest: string,
+    overwrite: OverwritePolicy,
+  ): boolean {
+    let destInfo: Deno.FileInfo;
+    try {
+      destInfo = fs.lstatSync(dest);
+    } catch (e) {
+      if (e instanceof Deno.errors.NotFound) {
+        return true;
+      }
+      throw e;
+    }
+    switch (overwrite) {
+      case "error":
+        throw new Deno.errors.AlreadyExists(`${dest} already exists`);
+      case "skip":
+        return false;
+      case "replace":
+        return true;
+      case "replaceIfNewer":
+        return !info.mtime || !destInfo.mtime || info.mtime > destInfo.mtime;
+    }
   }
 
-  get separatorList(): string[] {
-    return this.separators;
+  /**
+   * copy the mode and timestamps of the source onto the destination synchronously
+   */
+  private static preserveInfoSync(
+    fs: FileSystem,
+    info: Deno.FileInfo,
+    dest: string,
+  ): void {
+    if (info.mode !== null) {
+      fs.chmodSync(dest, info.mode & 0o7777);
+    }
+    const now = new Date();
+    fs.utimeSync(dest, info.atime ?? now, info.mtime ?? now);
   }
 
-  public static fromCWD(): Path {
-    return new Path(Deno.cwd());
+  /**
+   * remove an existing destination that is not a directory synchronously, see `unlinkDest`
+   */
+  private static unlinkDestSync(fs: FileSystem, dest: string): void {
+    try {
+      if (fs.lstatSync(dest).isDirectory) {
+        return;
+      }
+    } catch (e) {
+      if (e instanceof Deno.errors.NotFound) {
+        return;
+      }
+      throw e;
+    }
+    fs.removeSync(dest);
   }
 
   /**
-   * create the specified path if parents is true any needed paths will be created
-   * @param path the desired path
-   * @param parents whether or not to create the structure needed to achieve the final path
-   * @returns `true` on success and `false` on failure
-   *
+   * recursively copy a single entry synchronously, see `copyTo`
+   * @returns whether the entry was written, false if it was skipped
    */
-  public mkDirSync(parents: boolean = false): boolean {
-    if (!parents) {
-      Deno.mkdirSync(this.toString());
+  private static copyEntrySync(
+    fs: FileSystem,
+    src: PurePath,
+    dest: PurePath,
+    options: Required<CopyOptions>,
+  ): boolean {
+    let info = fs.lstatSync(src.toString());
+    if (info.isSymlink) {
+      if (options.symlinks === "skip") {
+        return false;
+      }
+      if (options.symlinks === "copy") {
+        if (
+          !Path.canOverwriteSync(fs, info, dest.toString(), options.overwrite)
+        ) {
+          return false;
+        }
+        const target = fs.readLinkSync(src.toString());
+        try {
+          fs.removeSync(dest.toString());
+        } catch {
+          // there may be nothing to replace
+        }
+        fs.symlinkSync(target, dest.toString());
+        return true;
+      }
+      info = fs.statSync(src.toString());
     }
-    // if the path already exists and is a dir there is nothing to do
-    if (this.exists && this.isDir) {
-      return true;
+    if (info.isDirectory) {
+      try {
+        fs.mkdirSync(dest.toString());
+      } catch (e) {
+        if (!(e instanceof Deno.errors.AlreadyExists)) {
+          throw e;
+        }
+        // directories are merged into existing ones, a symlink is replaced like a file
+        // so nothing is written through it
+        if (fs.lstatSync(dest.toString()).isSymlink) {
+          if (
+            !Path.canOverwriteSync(
+              fs,
+              info,
+              dest.toString(),
+              options.overwrite,
+            )
+          ) {
+            return false;
+          }
+          fs.removeSync(dest.toString());
+          fs.mkdirSync(dest.toString());
+        }
+      }
+      for (const entry of fs.readDirSync(src.toString())) {
+        Path.copyEntrySync(
+          fs,
+          src.join(entry.name),
+          dest.join(entry.name),
+          options,
+        );
+      }
+    } else if (
+      Path.canOverwriteSync(fs, info, dest.toString(), options.overwrite)
+    ) {
+      Path.unlinkDestSync(fs, dest.toString());
+      fs.copyFileSync(src.toString(), dest.toString());
+    } else {
+      return false;
     }
-    // find the last part of the path that is valid
-    let vp = this.findLastValidNodeSync();
-    // take the diff between the valid path and the desired path
-    let needs = Path.diff(this, vp);
-    // create the needed paths
-    for (let i = 0; i < needs.length; i++) {
-      vp.push(needs[i]);
-      Deno.mkdirSync(vp.toString());
+    if (options.preserve) {
+      Path.preserveInfoSync(fs, info, dest.toString());
     }
     return true;
   }
 
-  public async mkDir(parents: boolean = false): Promise<boolean> {
-    if (!parents) {
-      await Deno.mkdir(this.toString());
-    }
-    // if the path already exists and is a dir there is nothing to do
-    if (this.exists && this.isDir) {
-      return true;
-    }
-    // find the last part of the path that is valid
-    let vp = this.findLastValidNodeSync();
-    // take the diff between the valid path and the desired path
-    let needs = Path.diff(this, vp);
-    // create the needed paths
-    for (let i = 0; i < needs.length; i++) {
-      vp.push(needs[i]);
-      await Deno.mkdir(vp.toString());
+  /**
+   * copy this file or directory tree to `dest` synchronously, see `copyTo`
+   * requires: --allow-read and --allow-write flags
+   * @param dest the destination path, not the directory to copy into
+   * @param options overwrite policy, whether mode and times are kept and how symlinks are handled
+   * @throws Error if `dest` is inside this directory
+   * @returns the destination as a new Path, null if nothing was copied
+   */
+  public copyToSync(
+    dest: Path | PurePath | string,
+    { overwrite = "error", preserve = false, symlinks = "copy" }: CopyOptions =
+      {},
+  ): Path | null {
+    const dp = this.coerce(dest);
+    const cwd = this.fileSystem.cwd();
+    if (dp.resolve(cwd).startsWith(this.pure.resolve(cwd))) {
+      throw new Error(`can not copy ${this.toString()} into itself`);
     }
-    return true;
+    const copied = Path.copyEntrySync(this.fileSystem, this.pure, dp, {
+      overwrite,
+      preserve,
+      symlinks,
+    });
+    return copied ? this.derive(dp) : null;
   }
 
   /**
-   * remove self
-   * @return true if success false otherwise
+   * move this file or directory tree to `dest` synchronously, see `moveTo`
+   * requires: --allow-read and --allow-write flags
+   * @param dest the destination path, not the directory to move into
+   * @param options overwrite policy and for the cross device fallback whether mode and times
+   * are kept and how symlinks are handled
+   * @throws Error if `dest` is this path, inside of it or one of its ancestors
+   * @returns the destination as a new Path, null if the overwrite policy kept an existing
+   * destination
    */
-  public async rm(recursive: boolean = false): Promise<void> {
-    await Deno.remove(this.toString(), { recursive });
-    return;
+  public moveToSync(
+    dest: Path | PurePath | string,
+    { overwrite = "error", preserve = true, symlinks = "copy" }: CopyOptions =
+      {},
+  ): Path | null {
+    const dp = this.coerce(dest);
+    this.assertMovable(dp);
+    const fs = this.fileSystem;
+    const info = fs.lstatSync(this.toString());
+    if (!Path.canOverwriteSync(fs, info, dp.toString(), overwrite)) {
+      return null;
+    }
+    let aside = Path.setAsideSync(fs, dp);
+    let crossDevice = false;
+    try {
+      try {
+        fs.renameSync(this.toString(), dp.toString());
+      } catch (e) {
+        if (!isCrossDevice(e)) {
+          throw e;
+        }
+        // the copy starts from an empty destination so a failure can remove all of it
+        aside ??= Path.setAsideSync(fs, dp, true);
+        crossDevice = true;
+        Path.copyEntrySync(fs, this.pure, dp, {
+          overwrite: "replace",
+          preserve,
+          symlinks,
+        });
+      }
+    } catch (e) {
+      if (crossDevice || aside) {
+        try {
+          fs.removeSync(dp.toString(), { recursive: true });
+        } catch {
+          // nothing may have been written to the destination
+        }
+      }
+      if (aside) {
+        fs.renameSync(aside, dp.toString());
+      }
+      throw e;
+    }
+    if (aside) {
+      fs.removeSync(aside, { recursive: true });
+    }
+    if (crossDevice) {
+      fs.removeSync(this.toString(), { recursive: true });
+    }
+    return this.derive(dp);
   }
 
   /**
-   * remove self sync
-   * @return true if success false otherwise
+   * rename this file or directory keeping it in the same directory synchronously
+   * requires: --allow-read and --allow-write flags
+   * @param newName the new name, it must not contain separators
+   * @param options overwrite policy for an existing entry named `newName`
+   * @returns the renamed path as a new Path, null if the overwrite policy kept an existing entry
    */
-  public rmSync(recursive: boolean = false): void {
-    Deno.removeSync(this.toString(), { recursive });
+  public renameSync(
+    newName: string,
+    options?: CopyOptions,
+  ): Path | null {
+    return this.moveToSync(this.pure.withName(newName), options);
   }
 
   /**
@@ -354,8 +3116,222 @@ export class Path {
     return new Path(tempPath);
   }
 
+  /**
+   * the home directory of the current user, see `expandUser`
+   * requires: --allow-env flag unless `env` is given
+   * @param options the variables to read and the platform whose conventions are followed
+   * @throws UndefinedVariableError if the environment does not contain the home directory
+   */
+  public static home({ env, os = Deno.build.os }: AppDirOptions = {}): Path {
+    const windows = os === "windows";
+    return new Path(
+      _requireHome(_environment(env), windows),
+      windows ? WINDOWS_SEPS : UNIX_SEPS,
+    );
+  }
+
+  /**
+   * locate a per user application directory, nothing is created
+   */
+  private static appDir(
+    kind: AppDirKind,
+    app: string | undefined,
+    { env, os = Deno.build.os }: AppDirOptions,
+  ): Path {
+    const { base, suffix } = _appDirParts(kind, _environment(env), os);
+    const [first, ...rest] = base;
+    const pure = new PurePath(
+      first,
+      os === "windows" ? WINDOWS_SEPS : UNIX_SEPS,
+    )
+      .join(...rest);
+    return Path.fromPure(app ? pure.join(app, ...suffix) : pure);
+  }
+
+  /**
+   * the directory for an application's settings, nothing is created
+   * ```ts
+   * Path.configDir("app"); // ~/.config/app, ~/Library/Application Support/app or %APPDATA%\\app
+   * ```
+   * requires: --allow-env flag unless `env` is given
+   * @param app the name of the application, the shared directory is returned if omitted
+   * @param options the variables to read and the platform whose conventions are followed,
+   * e.g. `{ env: { HOME: "/home/me" }, os: "darwin" }`
+   * @throws UndefinedVariableError if the home directory is needed but not set
+   */
+  public static configDir(app?: string, options: AppDirOptions = {}): Path {
+    return Path.appDir("config", app, options);
+  }
+
+  /**
+   * the directory for an application's disposable caches, see `configDir`
+   * ```ts
+   * Path.cacheDir("app"); // ~/.cache/app, ~/Library/Caches/app or %LOCALAPPDATA%\\app\\Cache
+   * ```
+   */
+  public static cacheDir(app?: string, options: AppDirOptions = {}): Path {
+    return Path.appDir("cache", app, options);
+  }
+
+  /**
+   * the directory for the files an application keeps, see `configDir`
+   * ```ts
+   * Path.dataDir("app"); // ~/.local/share/app, ~/Library/Application Support/app or %LOCALAPPDATA%\\app
+   * ```
+   */
+  public static dataDir(app?: string, options: AppDirOptions = {}): Path {
+    return Path.appDir("data", app, options);
+  }
+
+  /**
+   * the directory for an application's logs and history, see `configDir`
+   * ```ts
+   * Path.stateDir("app"); // ~/.local/state/app, the same as `dataDir` on macOS and windows
+   * ```
+   */
+  public static stateDir(app?: string, options: AppDirOptions = {}): Path {
+    return Path.appDir("state", app, options);
+  }
+
+  /**
+   * the directory for an application's sockets and lock files, see `configDir`
+   * ```ts
+   * Path.runtimeDir("app"); // $XDG_RUNTIME_DIR/app, otherwise in the temporary folder
+   * ```
+   */
+  public static runtimeDir(app?: string, options: AppDirOptions = {}): Path {
+    return Path.appDir("runtime", app, options);
+  }
+
+  /**
+   * the paths an executable may be found at in search order
+   * names containing a separator are not searched for, they are only tried as is
+   */
+  private static whichCandidates(name: string, options: WhichOptions) {
+    const separators = new PurePath(undefined, options.separators)
+      .separatorList;
+    const windows = _isWindowsSeparators(separators);
+    let names = [name];
+    if (windows) {
+      const extensions = (options.pathext ?? Deno.env.get("PATHEXT") ??
+        ".COM;.EXE;.BAT;.CMD").split(";").filter((e) => e);
+      const lower = name.toLowerCase();
+      // a name that already has an executable extension is only tried as is
+      if (!extensions.some((e) => lower.endsWith(e.toLowerCase()))) {
+        names = extensions.map((e) => name + e);
+      }
+    }
+    const np = new PurePath(name, separators);
+    if (np.root.kind !== "relative" || np.elements.length > 1) {
+      return {
+        windows,
+        candidates: names.map((n) => new Path(n, separators)),
+      };
+    }
+    const seen = new Set<string>();
+    const candidates = new Array<Path>();
+    const search = options.path ?? Deno.env.get("PATH") ?? "";
+    for (let dir of search.split(windows ? ";" : ":")) {
+      // windows allows quoting entries that contain the delimiter,
+      // posix reads an empty entry as the current directory
+      dir = windows ? dir.replace(/^"(.*)"$/, "$1") : dir || ".";
+      const dp = new PurePath(dir, separators);
+      if (!dir || seen.has(dp.key())) {
+        continue;
+      }
+      seen.add(dp.key());
+      candidates.push(...names.map((n) => Path.fromPure(dp.join(n))));
+    }
+    return { windows, candidates };
+  }
+
+  /**
+   * whether a file can be executed, windows has no executable bit so any file can
+   */
+  private static isExecutable(stat: PathStat, windows: boolean): boolean {
+    return stat.isFile &&
+      (windows || stat.mode === null || (stat.mode & 0o111) !== 0);
+  }
+
+  /**
+   * locate an executable the way a shell would, by searching the directories in `PATH`
+   * ```ts
+   * const git = await Path.which("git");
+   * const all = await Path.which("deno", { all: true });
+   * ```
+   * requires: --allow-env flag unless `path` and `pathext` are given, --allow-read flag
+   * @param name the name of the executable, on windows the extension may be left out
+   * @param options whether every match is returned and where to search
+   * @returns the first match or null, every match if `all` is set
+   */
+  public static which(
+    name: string,
+    options: WhichOptions & { all: true },
+  ): Promise<Path[]>;
+  public static which(
+    name: string,
+    options?: WhichOptions,
+  ): Promise<Path | null>;
+  public static async which(
+    name: string,
+    options: WhichOptions = {},
+  ): Promise<Path | Path[] | null> {
+    const { windows, candidates } = Path.whichCandidates(name, options);
+    const matches = new Array<Path>();
+    for (const candidate of candidates) {
+      const executable = await Path.probe(async () =>
+        Path.isExecutable(await candidate.stat(), windows)
+      );
+      if (executable && !options.all) {
+        return candidate;
+      } else if (executable) {
+        matches.push(candidate);
+      }
+    }
+    return options.all ? matches : null;
+  }
+
+  /**
+   * locate an executable synchronously, see `which`
+   * requires: --allow-env flag unless `path` and `pathext` are given, --allow-read flag
+   * @param name the name of the executable, on windows the extension may be left out
+   * @param options whether every match is returned and where to search
+   * @returns the first match or null, every match if `all` is set
+   */
+  public static whichSync(
+    name: string,
+    options: WhichOptions & { all: true },
+  ): Path[];
+  public static whichSync(name: string, options?: WhichOptions): Path | null;
+  public static whichSync(
+    name: string,
+    options: WhichOptions = {},
+  ): Path | Path[] | null {
+    const { windows, candidates } = Path.whichCandidates(name, options);
+    const matches = new Array<Path>();
+    for (const candidate of candidates) {
+      let executable: boolean;
+      try {
+        executable = Path.isExecutable(candidate.statSync(), windows);
+      } catch (e) {
+        // do not hide permission errors from the user
+        if (e instanceof Deno.errors.PermissionDenied) {
+          throw e;
+        }
+        executable = false;
+      }
+      if (executable && !options.all) {
+        return candidate;
+      } else if (executable) {
+        matches.push(candidate);
+      }
+    }
+    return options.all ? matches : null;
+  }
+
   /**
    * Generate a new random folder name with it's path set to the system temporary folder
+   * nothing is created, use `createTempDir` to safely create a temporary directory
    * @param rngScalar
    * @param prefix
    * @param suffix
@@ -370,16 +3346,231 @@ export class Path {
       tmpDir?: string;
     } = {},
   ): Path {
-    const rn = Math.floor(Math.random() * rngScalar);
-    const hsi = new Hashids(rn.toString(), 10);
     let pt;
-    prefix = prefix ? prefix + joinChar : "";
-    suffix = suffix ? joinChar + suffix : "";
     if (!tmpDir) {
       pt = Path.getTmpPath();
     } else {
       pt = new Path(tmpDir);
     }
-    return pt.push(prefix + hsi.encode(rn) + suffix);
+    return pt.push(Path.randomName({ rngScalar, prefix, suffix, joinChar }));
+  }
+
+  /**
+   * Generate a new random name using Hashids
+   * @param rngScalar
+   * @param prefix
+   * @param suffix
+   * @param joinChar
+   */
+  private static randomName(
+    { rngScalar = 4096, prefix = "", suffix = "", joinChar = "." }: {
+      rngScalar?: number;
+      prefix?: string;
+      suffix?: string;
+      joinChar?: string;
+    } = {},
+  ): string {
+    const rn = Math.floor(Math.random() * rngScalar);
+    const hsi = new Hashids(rn.toString(), 10);
+    prefix = prefix ? prefix + joinChar : "";
+    suffix = suffix ? joinChar + suffix : "";
+    return prefix + hsi.encode(rn) + suffix;
+  }
+
+  /**
+   * pick a fresh random path for a temporary entry
+   */
+  private static tempCandidate(
+    { prefix, suffix, joinChar, tmpDir }: TempOptions,
+  ): Path {
+    const candidate = Path.makeTmpDir({
+      rngScalar: 2 ** 32,
+      prefix,
+      suffix,
+      joinChar,
+      tmpDir: tmpDir === undefined ? undefined : tmpDir.toString(),
+    });
+    // a temporary entry lives on the same filesystem as the directory it is created in
+    return tmpDir instanceof Path ? tmpDir.derive(candidate.pure) : candidate;
+  }
+
+  /**
+   * wrap a freshly created temporary entry into a TempPath on the same filesystem
+   */
+  private static toTempPath(candidate: Path): TempPath {
+    const temp = new TempPath(candidate.toString(), candidate.separatorList);
+    temp.fs = candidate.fs;
+    return temp;
+  }
+
+  /**
+   * create a new temporary directory only accessible by the current user,
+   * names are retried until one that does not exist yet is found
+   * ```ts
+   * await using dir = await Path.createTempDir({ prefix: "build" });
+   * // dir is removed recursively when it goes out of scope
+   * ```
+   * requires: --allow-write flag
+   * @param options the name's prefix, suffix and join char and the directory to create it in
+   * @returns a TempPath that removes itself when disposed
+   */
+  public static async createTempDir(
+    options: TempOptions = {},
+  ): Promise<TempPath> {
+    const { maxAttempts = 100 } = options;
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const candidate = Path.tempCandidate(options);
+      try {
+        await candidate.fileSystem.mkdir(candidate.toString(), { mode: 0o700 });
+        return Path.toTempPath(candidate);
+      } catch (e) {
+        if (!(e instanceof Deno.errors.AlreadyExists)) {
+          throw e;
+        }
+      }
+    }
+    throw new Error(
+      `could not create a unique temporary directory in ${maxAttempts} attempts`,
+    );
+  }
+
+  /**
+   * create a new temporary directory synchronously, see `createTempDir`
+   * requires: --allow-write flag
+   * @param options the name's prefix, suffix and join char and the directory to create it in
+   * @returns a TempPath that removes itself when disposed
+   */
+  public static createTempDirSync(options: TempOptions = {}): TempPath {
+    const { maxAttempts = 100 } = options;
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const candidate = Path.tempCandidate(options);
+      try {
+        candidate.fileSystem.mkdirSync(candidate.toString(), { mode: 0o700 });
+        return Path.toTempPath(candidate);
+      } catch (e) {
+        if (!(e instanceof Deno.errors.AlreadyExists)) {
+          throw e;
+        }
+      }
+    }
+    throw new Error(
+      `could not create a unique temporary directory in ${maxAttempts} attempts`,
+    );
+  }
+
+  /**
+   * create a new empty temporary file only accessible by the current user,
+   * names are retried until one that does not exist yet is found
+   * requires: --allow-write flag
+   * @param options the name's prefix, suffix and join char and the directory to create it in
+   * @returns a TempPath that removes itself when disposed
+   */
+  public static async createTempFile(
+    options: TempOptions = {},
+  ): Promise<TempPath> {
+    const { maxAttempts = 100 } = options;
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const candidate = Path.tempCandidate(options);
+      try {
+        await candidate.fileSystem.writeFile(
+          candidate.toString(),
+          new Uint8Array(),
+          { createNew: true, mode: 0o600 },
+        );
+        return Path.toTempPath(candidate);
+      } catch (e) {
+        if (!(e instanceof Deno.errors.AlreadyExists)) {
+          throw e;
+        }
+      }
+    }
+    throw new Error(
+      `could not create a unique temporary file in ${maxAttempts} attempts`,
+    );
+  }
+
+  /**
+   * create a new empty temporary file synchronously, see `createTempFile`
+   * requires: --allow-write flag
+   * @param options the name's prefix, suffix and join char and the directory to create it in
+   * @returns a TempPath that removes itself when disposed
+   */
+  public static createTempFileSync(options: TempOptions = {}): TempPath {
+    const { maxAttempts = 100 } = options;
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const candidate = Path.tempCandidate(options);
+      try {
+        candidate.fileSystem.writeFileSync(
+          candidate.toString(),
+          new Uint8Array(),
+          { createNew: true, mode: 0o600 },
+        );
+        return Path.toTempPath(candidate);
+      } catch (e) {
+        if (!(e instanceof Deno.errors.AlreadyExists)) {
+          throw e;
+        }
+      }
+    }
+    throw new Error(
+      `could not create a unique temporary file in ${maxAttempts} attempts`,
+    );
+  }
+
+  /**
+   * run `fn` with a fresh temporary directory that is removed recursively afterwards,
+   * even if `fn` throws
+   * ```ts
+   * const out = await Path.withTempDir(async (dir) => {
+   *   await new Path(dir.toString()).push("a.txt").writeText("hi");
+   *   return 42;
+   * });
+   * ```
+   * requires: --allow-write flag
+   * @param fn receives the temporary directory, its result is returned
+   * @param options the name's prefix, suffix and join char and the directory to create it in
+   */
+  public static async withTempDir<T>(
+    fn: (dir: TempPath) => T | Promise<T>,
+    options?: TempOptions,
+  ): Promise<T> {
+    const dir = await Path.createTempDir(options);
+    try {
+      return await fn(dir);
+    } finally {
+      await dir[Symbol.asyncDispose]();
+    }
+  }
+}
+
+/**
+ * a temporary path created by `Path.createTempDir` or `Path.createTempFile`
+ * disposing it removes it recursively, it can be used with `using` and `await using`
+ */
+export class TempPath extends Path {
+  /**
+   * remove this temporary path recursively, it is not an error if it is already gone
+   */
+  [Symbol.dispose](): void {
+    try {
+      this.rmSync(true);
+    } catch (e) {
+      if (!(e instanceof Deno.errors.NotFound)) {
+        throw e;
+      }
+    }
+  }
+
+  /**
+   * remove this temporary path recursively without blocking, it is not an error if it is already gone
+   */
+  async [Symbol.asyncDispose](): Promise<void> {
+    try {
+      await this.rm(true);
+    } catch (e) {
+      if (!(e instanceof Deno.errors.NotFound)) {
+        throw e;
+      }
+    }
   }
 }
@@ -0,0 +1,141 @@
+// Copyright 2020 Matheus Xavier all rights reserved. MIT licensed
+import type { Path } from "./Path.ts";
+import type { CompareOptions, PurePath } from "./PurePath.ts";
+
+/**
+ * a set of paths where membership follows `equals` instead of object identity
+ * ```ts
+ * const set = new PathSet([new Path("C:\\a", WINDOWS_SEPS)]);
+ * set.has(new Path("c:/A", WINDOWS_SEPS)); // true
+ * ```
+ */
+export class PathSet<P extends Path | PurePath = Path> implements Iterable<P> {
+  private items = new Map<string, P>();
+  private caseSensitive?: boolean;
+
+  /**
+   * @param paths initial members
+   * @param options whether keys are case sensitive, defaults to each path's separator flavor
+   */
+  constructor(paths?: Iterable<P>, { caseSensitive }: CompareOptions = {}) {
+    this.caseSensitive = caseSensitive;
+    if (paths) {
+      for (const p of paths) {
+        this.add(p);
+      }
+    }
+  }
+
+  get size(): number {
+    return this.items.size;
+  }
+
+  /**
+   * add a path, the first path added is kept when an equal one is added again
+   */
+  public add(path: P): this {
+    const key = path.key({ caseSensitive: this.caseSensitive });
+    if (!this.items.has(key)) {
+      this.items.set(key, path);
+    }
+    return this;
+  }
+
+  public has(path: P): boolean {
+    return this.items.has(path.key({ caseSensitive: this.caseSensitive }));
+  }
+
+  public delete(path: P): boolean {
+    return this.items.delete(path.key({ caseSensitive: this.caseSensitive }));
+  }
+
+  public clear(): void {
+    this.items.clear();
+  }
+
+  public values(): IterableIterator<P> {
+    return this.items.values();
+  }
+
+  [Symbol.iterator](): IterableIterator<P> {
+    return this.values();
+  }
+}
+
+/**
+ * a map keyed by paths where lookups follow `equals` instead of object identity
+ */
+export class PathMap<V, P extends Path | PurePath = Path>
+  implements Iterable<[P, V]> {
+  private items = new Map<string, [P, V]>();
+  private caseSensitive?: boolean;
+
+  /**
+   * @param entries initial entries
+   * @param options whether keys are case sensitive, defaults to each path's separator flavor
+   */
+  constructor(
+    entries?: Iterable<[P, V]>,
+    { caseSensitive }: CompareOptions = {},
+  ) {
+    this.caseSensitive = caseSensitive;
+    if (entries) {
+      for (const [p, v] of entries) {
+        this.set(p, v);
+      }
+    }
+  }
+
+  get size(): number {
+    return this.items.size;
+  }
+
+  /**
+   * set the value of a path, the first path set is kept as the key when an equal one is set again
+   */
+  public set(path: P, value: V): this {
+    const key = path.key({ caseSensitive: this.caseSensitive });
+    const existing = this.items.get(key);
+    this.items.set(key, [existing ? existing[0] : path, value]);
+    return this;
+  }
+
+  public get(path: P): V | undefined {
+    const entry = this.items.get(
+      path.key({ caseSensitive: this.caseSensitive }),
+    );
+    return entry ? entry[1] : undefined;
+  }
+
+  public has(path: P): boolean {
+    return this.items.has(path.key({ caseSensitive: this.caseSensitive }));
+  }
+
+  public delete(path: P): boolean {
+    return this.items.delete(path.key({ caseSensitive: this.caseSensitive }));
+  }
+
+  public clear(): void {
+    this.items.clear();
+  }
+
+  public *keys(): IterableIterator<P> {
+    for (const [p] of this.items.values()) {
+      yield p;
+    }
+  }
+
+  public *values(): IterableIterator<V> {
+    for (const [, v] of this.items.values()) {
+      yield v;
+    }
+  }
+
+  public entries(): IterableIterator<[P, V]> {
+    return this.items.values();
+  }
+
+  [Symbol.iterator](): IterableIterator<[P, V]> {
+    return this.entries();
+  }
+}
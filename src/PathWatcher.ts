@@ -0,0 +1,281 @@
+// Copyright 2020 Matheus Xavier all rights reserved. MIT licensed
+import { Path } from "./Path.ts";
+
+/**
+ * the kind of change reported by a watcher
+ */
+export type WatchEventKind = "created" | "modified" | "removed" | "renamed";
+
+/**
+ * a change to a watched path
+ */
+export interface WatchEvent {
+  kind: WatchEventKind;
+  /** the path that changed, the new path for `renamed` */
+  path: Path;
+  /** the old path, only set for `renamed` */
+  from?: Path;
+}
+
+/**
+ * options for watching a path
+ */
+export interface WatchOptions {
+  /** whether changes below subdirectories are reported, defaults to true */
+  recursive?: boolean;
+  /**
+   * events for the same path arriving within this many milliseconds of each other are coalesced
+   * into one, e.g. a create followed by modifications is reported once as `created`.
+   * defaults to 50, 0 reports every event as it arrives
+   */
+  debounceMs?: number;
+  /**
+   * the longest an event is held back while more events for the same path keep arriving,
+   * defaults to 10 times `debounceMs`
+   */
+  maxWaitMs?: number;
+  /** only events for which this returns true are reported */
+  filter?: (event: WatchEvent) => boolean;
+}
+
+/**
+ * what a pending event becomes when another one for the same path arrives
+ * null means both cancel out, e.g. a file created and removed within the debounce window
+ */
+function coalesce(pending: WatchEvent, next: WatchEvent): WatchEvent | null {
+  if (next.kind === "renamed") {
+    return next;
+  }
+  if (pending.kind === "renamed") {
+    // the renamed entry disappearing again means its old path is gone,
+    // anything else only changes the renamed entry which the rename already reports
+    return next.kind === "removed"
+      ? { kind: "removed", path: pending.from ?? pending.path }
+      : pending;
+  }
+  if (pending.kind === "created") {
+    return next.kind === "removed" ? null : pending;
+  }
+  if (pending.kind === "removed" && next.kind === "created") {
+    return { ...next, kind: "modified" };
+  }
+  return next;
+}
+
+/**
+ * an event held back by the debounce window
+ */
+interface PendingEvent {
+  event: WatchEvent;
+  /** when the first event for the path arrived */
+  since: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * an async iterable of the changes to a path, created by `Path.watch`
+ * iteration ends once `close` is called, breaking out of a `for await` loop also closes it
+ * ```ts
+ * using watcher = new Path("./config").watch({ filter: (e) => e.path.ext === ".json" });
+ * for await (const event of watcher) {
+ *   console.log(event.kind, event.path.toString());
+ * }
+ * ```
+ */
+export class PathWatcher implements AsyncIterable<WatchEvent> {
+  private watcher: Deno.FsWatcher;
+  private separators: string[];
+  private debounceMs: number;
+  private maxWaitMs: number;
+  private filter?: (event: WatchEvent) => boolean;
+  private queue = new Array<WatchEvent>();
+  private pending = new Map<string, PendingEvent>();
+  private wake?: () => void;
+  private done = false;
+  private error?: unknown;
+
+  /**
+   * start watching a path
+   * requires: --allow-read flag
+   * @param path the file or directory to watch
+   * @param options whether to recurse, how long to debounce and which events to report
+   */
+  constructor(
+    path: Path,
+    { recursive = true, debounceMs = 50, maxWaitMs, filter }: WatchOptions = {},
+  ) {
+    this.separators = path.separatorList;
+    this.debounceMs = debounceMs;
+    this.maxWaitMs = maxWaitMs ?? debounceMs * 10;
+    this.filter = filter;
+    this.watcher = Deno.watchFs(path.toString(), { recursive });
+    this.pump();
+  }
+
+  /**
+   * stop watching, events not yet reported are dropped
+   */
+  public close(): void {
+    if (this.done) {
+      return;
+    }
+    this.done = true;
+    for (const { timer } of this.pending.values()) {
+      clearTimeout(timer);
+    }
+    this.pending.clear();
+    this.queue.length = 0;
+    try {
+      this.watcher.close();
+    } catch (e) {
+      if (!(e instanceof Deno.errors.BadResource)) {
+        throw e;
+      }
+    }
+    this.notify();
+  }
+
+  [Symbol.dispose](): void {
+    this.close();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<WatchEvent> {
+    try {
+      while (true) {
+        while (!this.queue.length && !this.done) {
+          await new Promise<void>((resolve) => this.wake = resolve);
+        }
+        if (this.error) {
+          throw this.error;
+        }
+        const event = this.queue.shift();
+        if (!event) {
+          return;
+        }
+        yield event;
+      }
+    } finally {
+      this.close();
+    }
+  }
+
+  /**
+   * wake up a consumer waiting for events
+   */
+  private notify(): void {
+    const wake = this.wake;
+    this.wake = undefined;
+    wake?.();
+  }
+
+  /**
+   * read raw events from the filesystem watcher until it is closed
+   */
+  private async pump(): Promise<void> {
+    try {
+      for await (const raw of this.watcher) {
+        for (const event of await this.translate(raw)) {
+          this.receive(event);
+        }
+      }
+    } catch (e) {
+      if (!this.done) {
+        this.error = e;
+      }
+    }
+    this.done = true;
+    this.notify();
+  }
+
+  /**
+   * turn a raw Deno event into typed events, access and other events are ignored
+   */
+  private async translate(raw: Deno.FsEvent): Promise<WatchEvent[]> {
+    const toPath = (p: string) => new Path(p, this.separators);
+    switch (raw.kind) {
+      case "create":
+        return raw.paths.map((p) => ({ kind: "created", path: toPath(p) }));
+      case "modify":
+      case "any":
+        return raw.paths.map((p) => ({ kind: "modified", path: toPath(p) }));
+      case "remove":
+        return raw.paths.map((p) => ({ kind: "removed", path: toPath(p) }));
+      case "rename": {
+        if (raw.paths.length === 2) {
+          return [{
+            kind: "renamed",
+            from: toPath(raw.paths[0]),
+            path: toPath(raw.paths[1]),
+          }];
+        }
+        // only one side of the rename was seen, so it either appeared or disappeared
+        const events = new Array<WatchEvent>();
+        for (const p of raw.paths) {
+          // the real filesystem is asked as `Path.defaultFileSystem` may have been replaced
+          const exists = await Deno.lstat(p).then(() => true, (e) => {
+            if (e instanceof Deno.errors.PermissionDenied) {
+              throw e;
+            }
+            return false;
+          });
+          events.push({
+            kind: exists ? "created" : "removed",
+            path: toPath(p),
+          });
+        }
+        return events;
+      }
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * queue an event right away or hold it back until the debounce window closes
+   */
+  private receive(event: WatchEvent): void {
+    if (this.done || (this.filter && !this.filter(event))) {
+      return;
+    }
+    if (this.debounceMs <= 0) {
+      this.queue.push(event);
+      this.notify();
+      return;
+    }
+    // every path has its own window so activity on one path does not hold back the others
+    const key = event.path.key();
+    const pending = this.pending.get(key);
+    const since = pending?.since ?? Date.now();
+    let next: WatchEvent | null = event;
+    if (pending) {
+      clearTimeout(pending.timer);
+      next = coalesce(pending.event, event);
+      if (next === null) {
+        this.pending.delete(key);
+        return;
+      }
+    }
+    const delay = Math.min(
+      this.debounceMs,
+      Math.max(0, since + this.maxWaitMs - Date.now()),
+    );
+    this.pending.set(key, {
+      event: next,
+      since,
+      timer: setTimeout(() => this.flush(key), delay),
+    });
+  }
+
+  /**
+   * release the event for a path held back by the debounce window
+   */
+  private flush(key: string): void {
+    const pending = this.pending.get(key);
+    if (!pending) {
+      return;
+    }
+    this.pending.delete(key);
+    this.queue.push(pending.event);
+    this.notify();
+  }
+}
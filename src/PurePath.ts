@@ -0,0 +1,1173 @@
+// Copyright 2020 Matheus Xavier all rights reserved. MIT licensed
+import { _determineSeparators, UNIX_SEPS, WINDOWS_SEPS } from "./_separator.ts";
+import { _isWindowsSeparators, _parseRoot, _renderRoot } from "./_root.ts";
+import type { PathRoot } from "./_root.ts";
+import { _expandBraces, _matchSegments } from "./_glob.ts";
+import type { GlobMatchOptions } from "./_glob.ts";
+import { _quoteShell } from "./_shell.ts";
+import type { ShellOptions } from "./_shell.ts";
+import {
+  _sanitizeElement,
+  _validateElement,
+  _validateLength,
+} from "./_validate.ts";
+import type {
+  PathProblem,
+  SanitizeOptions,
+  ValidateOptions,
+} from "./_validate.ts";
+
+/**
+ * how absolute paths are mapped between windows and POSIX flavors
+ * * `none` separators are swapped, `C:\foo` becomes `C:/foo` and `/foo` becomes `\foo`
+ * * `wsl` drives are mounted under `/mnt`, `C:\foo` maps to `/mnt/c/foo`
+ * * `msys` drives are mounted at the root, `C:\foo` maps to `/c/foo`
+ * * `cygwin` drives are mounted under `/cygdrive`, `C:\foo` maps to `/cygdrive/c/foo`
+ */
+export type FlavorMapping = "none" | "wsl" | "msys" | "cygwin";
+
+/**
+ * options for converting paths between windows and POSIX flavors
+ */
+export interface FlavorOptions {
+  /** how drives are mapped, defaults to `none` */
+  mapping?: FlavorMapping;
+  /**
+   * with the `wsl` mapping POSIX paths outside of `/mnt` are mapped to
+   * `\\wsl$\<distro>\...` when the distribution name is given
+   */
+  distro?: string;
+}
+
+/** where each mapping mounts drives, the drive letter follows these elements */
+const DRIVE_MOUNTS: Record<FlavorMapping, string[] | null> = {
+  none: null,
+  wsl: ["mnt"],
+  msys: [],
+  cygwin: ["cygdrive"],
+};
+
+/**
+ * options for comparing paths
+ */
+export interface CompareOptions {
+  /** whether elements are compared case sensitively, defaults to false for windows separators */
+  caseSensitive?: boolean;
+  /** whether runs of digits are compared by their value so `file2` sorts before `file10` */
+  natural?: boolean;
+}
+
+/**
+ * compare two strings returning a negative, zero or positive number
+ */
+function compareStrings(a: string, b: string, natural: boolean): number {
+  if (!natural) {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  const ax = a.match(/\d+|\D+/g) || [];
+  const bx = b.match(/\d+|\D+/g) || [];
+  for (let i = 0; i < ax.length && i < bx.length; i++) {
+    if (ax[i] === bx[i]) {
+      continue;
+    }
+    if (/^\d/.test(ax[i]) && /^\d/.test(bx[i])) {
+      const diff = Number(ax[i]) - Number(bx[i]);
+      if (diff !== 0) {
+        return diff;
+      }
+      // equal values with different leading zeros, the shorter one comes first
+      return ax[i].length - bx[i].length;
+    }
+    return ax[i] < bx[i] ? -1 : 1;
+  }
+  return ax.length - bx.length;
+}
+
+/**
+ * thrown when a path built from untrusted input leaves the root it was confined to
+ */
+export class PathTraversalError extends Error {
+  /**
+   * @param root the root the path had to stay within
+   * @param path the offending path
+   */
+  constructor(public readonly root: string, public readonly path: string) {
+    super(`${path} escapes ${root}`);
+    this.name = "PathTraversalError";
+  }
+}
+
+/**
+ * an immutable representation of a path, it never touches the filesystem
+ * and every manipulation returns a new instance leaving the original untouched
+ */
+export class PurePath {
+  /**
+   * extensions made of several parts that `ext` treats as a single extension,
+   * compared case insensitively, it can be changed to suit the application
+   */
+  public static compoundExtensions: string[] = [
+    ".tar.gz",
+    ".tar.bz2",
+    ".tar.xz",
+    ".tar.zst",
+    ".d.ts",
+    ".d.mts",
+    ".d.cts",
+  ];
+
+  private pathElements: string[];
+  private separators: string[];
+  private pathRoot: PathRoot = {
+    kind: "relative",
+    verbatim: false,
+    absolute: false,
+  };
+
+  /**
+   * construct a pure path already with a path or empty
+   * @param path initialize this instance with a path if passed
+   * @param separators not needed most of the time, allows for overriding of the separators
+   * separators are an array where the 0th element is the preferred separator
+   */
+  constructor(path?: string, separators?: string[]) {
+    this.separators = separators || _determineSeparators();
+    if (path) {
+      const { root, rest } = _parseRoot(this.separators, path);
+      this.pathRoot = root;
+      // UNC and device roots render their own separator, so a bare root has no elements
+      if (!rest && (root.kind === "unc" || root.kind === "device")) {
+        this.pathElements = new Array<string>();
+      } else {
+        this.pathElements = PurePath.explodePath(this.separators, rest, root);
+      }
+    } else {
+      this.pathElements = new Array<string>();
+    }
+  }
+
+  /**
+   * explodes a string into an array of strings
+   * when `\` is not a separator it escapes a following separator, so `a\/b` is the single
+   * element `a/b`, in a run of `\` before a separator every pair stands for a literal `\`
+   * so `a\\/b` is `a\` and `b`, a `\` followed by anything else is kept as is
+   * @param separators a list of valid separators for the host system
+   * @param pathString the path to be exploded as a string
+   * @param root the root the exploded path belongs to, verbatim roots only accept `\` as a separator
+   */
+  private static explodePath(
+    separators: string[],
+    pathString: string,
+    root?: PathRoot,
+  ): string[] {
+    if (root && root.verbatim) {
+      separators = ["\\"];
+    }
+    const escapes = !_isWindowsSeparators(separators);
+    const exploded = pathString.split("");
+    const pathElements = new Array<string>();
+    let currentElement = "";
+    for (let charAt = 0; charAt < exploded.length; charAt++) {
+      const char = exploded[charAt];
+      if (escapes && char === "\\") {
+        let end = charAt;
+        while (exploded[end] === "\\") {
+          end++;
+        }
+        const run = end - charAt;
+        if (separators.indexOf(exploded[end]) === -1) {
+          currentElement = currentElement + "\\".repeat(run);
+        } else {
+          currentElement = currentElement + "\\".repeat(Math.floor(run / 2));
+          if (run % 2) {
+            currentElement = currentElement + exploded[end++];
+          }
+        }
+        charAt = end - 1;
+      } else if (separators.indexOf(char) === -1) {
+        currentElement = currentElement + char;
+      } else {
+        if (currentElement) {
+          pathElements.push(currentElement);
+          currentElement = "";
+        }
+      }
+    }
+    pathElements.push(currentElement);
+    return pathElements;
+  }
+
+  /**
+   * build a new instance sharing this path's separators
+   */
+  private derive(root: PathRoot, elements: string[]): PurePath {
+    const np = new PurePath(undefined, this.separators);
+    np.pathRoot = { ...root };
+    np.pathElements = elements;
+    return np;
+  }
+
+  /**
+   * coerce a string into a PurePath using this path's separators
+   */
+  private coerce(other: PurePath | string): PurePath {
+    return typeof other === "string"
+      ? new PurePath(other, this.separators)
+      : other;
+  }
+
+  /**
+   * render this path object as a string
+   * separators inside of an element are escaped with `\` unless `\` is itself a separator
+   * @return the stored path structure as a string
+   * using the preferred system separator.
+   */
+  public toString(
+    prefix: string = "",
+    suffix: string = "",
+    separator?: string,
+  ): string {
+    const sep = this.pathRoot.verbatim ? "\\" : separator || this.separators[0];
+    let path = this.escapedElements(sep).join(sep);
+    path = prefix.concat(path.concat(suffix));
+    const root = _renderRoot(this.pathRoot, sep);
+    // UNC and device roots are rendered without a trailing separator
+    if (
+      (this.pathRoot.kind === "unc" || this.pathRoot.kind === "device") &&
+      (this.pathElements.length || path)
+    ) {
+      return root.concat(sep, path);
+    }
+    return root.concat(path);
+  }
+
+  /**
+   * the elements with any separator they contain escaped so they survive being parsed again,
+   * a run of `\` that ends up in front of a separator is doubled so it is not read as an escape
+   */
+  private escapedElements(separator: string): string[] {
+    const separators = [...this.separators, separator];
+    if (this.pathRoot.verbatim || _isWindowsSeparators(separators)) {
+      return this.pathElements;
+    }
+    const chars = separators.map((c) => c.replace(/[\\\]^-]/g, "\\$&"));
+    const beforeSeparator = new RegExp(`\\\\+(?=[${chars.join("")}])`, "g");
+    const last = this.pathElements.length - 1;
+    return this.pathElements.map((e, i) => {
+      let escaped = e.replace(beforeSeparator, "$&$&");
+      if (i < last) {
+        escaped = escaped.replace(/\\+$/, "$&$&");
+      }
+      return escaped.split("").map((c) =>
+        separators.indexOf(c) === -1 ? c : "\\" + c
+      ).join("");
+    });
+  }
+
+  /**
+   * render this path quoted for a shell so it can be passed to a subprocess as a single argument
+   * ```ts
+   * new PurePath("/tmp/it's here", UNIX_SEPS).toShellString(); // "'/tmp/it'\\''s here'"
+   * new PurePath("C:\\Program Files\\app", WINDOWS_SEPS).toShellString(); // "\"C:\\Program Files\\app\""
+   * ```
+   * @param options the shell to quote for
+   */
+  public toShellString({ shell }: ShellOptions = {}): string {
+    return _quoteShell(
+      this.toString(),
+      shell ?? (_isWindowsSeparators(this.separators) ? "cmd" : "posix"),
+    );
+  }
+
+  /**
+   * append path fragments to the end of this path
+   * ```ts
+   * new PurePath("/etc").join("nginx", "sites/default").toString(); // "/etc/nginx/sites/default"
+   * ```
+   * @param parts strings denoting path fragments
+   * @returns a new PurePath
+   */
+  public join(...parts: string[]): PurePath {
+    const elements = [...this.pathElements];
+    for (const part of parts) {
+      elements.push(
+        ...PurePath.explodePath(this.separators, part, this.pathRoot),
+      );
+    }
+    return this.derive(this.pathRoot, elements);
+  }
+
+  /**
+   * the path without its last element, a trailing separator is not considered an element
+   * the parent of a bare root is the root itself and the parent of a single relative element is `.`
+   */
+  get parent(): PurePath {
+    const elements = [...this.pathElements];
+    if (elements.length && elements[elements.length - 1] === "") {
+      elements.pop();
+    }
+    elements.pop();
+    if (!elements.length && this.pathRoot.kind === "relative") {
+      elements.push(".");
+    }
+    return this.derive(this.pathRoot, elements);
+  }
+
+  /**
+   * the last element of this path or an empty string if there is none
+   */
+  get name(): string {
+    const elements = this.pathElements.filter((e) => e !== "");
+    return elements.length ? elements[elements.length - 1] : "";
+  }
+
+  /**
+   * replace the last element of this path
+   * @param name the new name, it must not be empty or contain separators
+   * @throws Error if the name is invalid or this path has no name to replace
+   * @returns a new PurePath
+   */
+  public withName(name: string): PurePath {
+    if (
+      !name || name.split("").some((c) => this.separators.indexOf(c) !== -1)
+    ) {
+      throw new Error(`invalid name: "${name}"`);
+    }
+    const elements = this.pathElements.filter((e) => e !== "");
+    if (!elements.length) {
+      throw new Error(`${this.toString()} has an empty name`);
+    }
+    elements[elements.length - 1] = name;
+    return this.derive(this.pathRoot, elements);
+  }
+
+  /**
+   * replace all elements of this path keeping its root
+   * @param elements the new elements
+   * @returns a new PurePath
+   */
+  public withElements(elements: readonly string[]): PurePath {
+    return this.derive(this.pathRoot, [...elements]);
+  }
+
+  /**
+   * replace the root of this path keeping its elements
+   * @param root the new root
+   * @returns a new PurePath
+   */
+  public withRoot(root: PathRoot): PurePath {
+    return this.derive(root, [...this.pathElements]);
+  }
+
+  /**
+   * change the separators of this path, the path is not parsed again
+   * @param separators the new separators where the 0th element is the preferred separator
+   * @returns a new PurePath
+   */
+  public withSeparators(separators: string[]): PurePath {
+    const np = new PurePath(undefined, separators);
+    np.pathRoot = { ...this.pathRoot };
+    np.pathElements = [...this.pathElements];
+    return np;
+  }
+
+  /**
+   * build a new instance from its parts
+   */
+  private static fromParts(
+    root: PathRoot,
+    elements: string[],
+    separators: string[],
+  ): PurePath {
+    const np = new PurePath(undefined, separators);
+    np.pathRoot = { ...root };
+    np.pathElements = [...elements];
+    return np;
+  }
+
+  /**
+   * build a path from a `file:` URL, percent-encoded characters are decoded
+   * an encoded separator such as `%2F` becomes a separator escaped inside its element,
+   * so the URLs of `toFileUrl` round-trip
+   * ```ts
+   * PurePath.fromFileUrl("file:///C:/My%20Docs/a.txt", WINDOWS_SEPS).toString(); // "C:\\My Docs\\a.txt"
+   * PurePath.fromFileUrl("file://server/share/a.txt", WINDOWS_SEPS).toString(); // "\\\\server\\share\\a.txt"
+   * ```
+   * @param url the URL to be converted
+   * @param separators allows for overriding of the separators, defaults to the host's
+   * @throws TypeError if the URL is not a `file:` URL, has a host on POSIX or encodes
+   * a separator on windows where elements can not escape them
+   */
+  public static fromFileUrl(
+    url: URL | string,
+    separators?: string[],
+  ): PurePath {
+    const u = typeof url === "string" ? new URL(url) : url;
+    if (u.protocol !== "file:") {
+      throw new TypeError(`${u.href} is not a file URL`);
+    }
+    const seps = separators || _determineSeparators();
+    const windows = _isWindowsSeparators(seps);
+    const elements = u.pathname.split("/").slice(1).map((segment) => {
+      const decoded = decodeURIComponent(segment);
+      if (windows && decoded.split("").some((c) => seps.indexOf(c) !== -1)) {
+        throw new TypeError(`${u.href} encodes a path separator`);
+      }
+      return decoded;
+    });
+    const host = u.hostname === "localhost" ? "" : u.hostname;
+    if (host) {
+      if (!windows) {
+        throw new TypeError(`${u.href} has a host, only windows supports them`);
+      }
+      return PurePath.fromParts(
+        {
+          kind: "unc",
+          server: host,
+          share: elements[0],
+          verbatim: false,
+          absolute: true,
+        },
+        elements.slice(1),
+        seps,
+      );
+    }
+    if (windows && elements.length && /^[a-zA-Z]:$/.test(elements[0])) {
+      return PurePath.fromParts(
+        {
+          kind: "drive",
+          drive: elements[0],
+          verbatim: false,
+          absolute: true,
+        },
+        elements.slice(1),
+        seps,
+      );
+    }
+    return PurePath.fromParts(
+      { kind: "root", verbatim: false, absolute: !windows },
+      elements,
+      seps,
+    );
+  }
+
+  /**
+   * convert this path into a `file:` URL percent-encoding every element, separators escaped
+   * inside an element are encoded too so they are not read as separators of the URL
+   * ```ts
+   * new PurePath("/tmp/a b#1.txt").toFileUrl().href; // "file:///tmp/a%20b%231.txt"
+   * ```
+   * @throws TypeError if this path is not absolute or is a device path
+   */
+  public toFileUrl(): URL {
+    const root = this.pathRoot;
+    if (!root.absolute || root.kind === "device") {
+      throw new TypeError(`${this.toString()} can not be made into a file URL`);
+    }
+    const path = this.pathElements.map(encodeURIComponent).join("/");
+    switch (root.kind) {
+      case "drive":
+        return new URL(`file:///${root.drive}/${path}`);
+      case "unc":
+        return new URL(
+          `file://${root.server}/${encodeURIComponent(root.share!)}/${path}`,
+        );
+      default:
+        return new URL(`file:///${path}`);
+    }
+  }
+
+  /**
+   * convert a windows flavored path into a POSIX flavored one, POSIX paths are returned as is
+   * ```ts
+   * new PurePath("C:\\src\\app", WINDOWS_SEPS).toPosix({ mapping: "wsl" }).toString(); // "/mnt/c/src/app"
+   * new PurePath("C:\\src\\app", WINDOWS_SEPS).toPosix({ mapping: "msys" }).toString(); // "/c/src/app"
+   * ```
+   * @param options how drives are mapped to POSIX paths
+   * @throws Error for drive relative, device and UNC paths that have no POSIX equivalent
+   * @returns a new PurePath using `UNIX_SEPS`
+   */
+  public toPosix({ mapping = "none" }: FlavorOptions = {}): PurePath {
+    if (!_isWindowsSeparators(this.separators)) {
+      return this.withSeparators(UNIX_SEPS);
+    }
+    const root = this.pathRoot;
+    const relative: PathRoot = {
+      kind: "relative",
+      verbatim: false,
+      absolute: false,
+    };
+    const posixRoot: PathRoot = {
+      kind: "root",
+      verbatim: false,
+      absolute: true,
+    };
+    switch (root.kind) {
+      case "relative":
+        return PurePath.fromParts(relative, this.pathElements, UNIX_SEPS);
+      case "root":
+        return PurePath.fromParts(posixRoot, this.pathElements, UNIX_SEPS);
+      case "drive": {
+        const mount = DRIVE_MOUNTS[mapping];
+        if (!root.absolute) {
+          throw new Error(
+            `drive relative path ${this.toString()} can not be converted`,
+          );
+        }
+        if (!mount) {
+          return PurePath.fromParts(
+            relative,
+            [root.drive!, ...this.pathElements],
+            UNIX_SEPS,
+          );
+        }
+        const letter = root.drive![0].toLowerCase();
+        return PurePath.fromParts(
+          posixRoot,
+          [...mount, letter, ...this.pathElements],
+          UNIX_SEPS,
+        );
+      }
+      case "unc": {
+        const server = root.server!.toLowerCase();
+        if (
+          mapping === "wsl" && (server === "wsl$" || server === "wsl.localhost")
+        ) {
+          return PurePath.fromParts(posixRoot, this.pathElements, UNIX_SEPS);
+        }
+        break;
+      }
+    }
+    throw new Error(
+      `${this.toString()} has no POSIX equivalent using the ${mapping} mapping`,
+    );
+  }
+
+  /**
+   * convert a POSIX flavored path into a windows flavored one, windows paths are returned as is
+   * ```ts
+   * new PurePath("/mnt/c/src/app", UNIX_SEPS).toWindows({ mapping: "wsl" }).toString(); // "C:\\src\\app"
+   * new PurePath("/home/me", UNIX_SEPS).toWindows({ mapping: "wsl", distro: "Ubuntu" }).toString(); // "\\\\wsl$\\Ubuntu\\home\\me"
+   * ```
+   * @param options how POSIX paths are mapped to drives
+   * @throws Error if an absolute path is outside of the mapping's drive mounts
+   * @returns a new PurePath using `WINDOWS_SEPS`
+   */
+  public toWindows(
+    { mapping = "none", distro }: FlavorOptions = {},
+  ): PurePath {
+    if (_isWindowsSeparators(this.separators)) {
+      return this.withSeparators(WINDOWS_SEPS);
+    }
+    if (this.pathRoot.kind === "relative") {
+      return this.withSeparators(WINDOWS_SEPS);
+    }
+    const mount = DRIVE_MOUNTS[mapping];
+    if (!mount) {
+      return PurePath.fromParts(
+        { kind: "root", verbatim: false, absolute: false },
+        this.pathElements,
+        WINDOWS_SEPS,
+      );
+    }
+    const elements = this.pathElements.filter((e, i) => e !== "" || i > 0);
+    const letter = elements[mount.length];
+    if (
+      mount.every((m, i) => elements[i] === m) &&
+      letter !== undefined && /^[a-zA-Z]$/.test(letter)
+    ) {
+      return PurePath.fromParts(
+        {
+          kind: "drive",
+          drive: letter.toUpperCase() + ":",
+          verbatim: false,
+          absolute: true,
+        },
+        elements.slice(mount.length + 1),
+        WINDOWS_SEPS,
+      );
+    }
+    if (mapping === "wsl" && distro) {
+      return PurePath.fromParts(
+        {
+          kind: "unc",
+          server: "wsl$",
+          share: distro,
+          verbatim: false,
+          absolute: true,
+        },
+        elements,
+        WINDOWS_SEPS,
+      );
+    }
+    throw new Error(
+      `${this.toString()} is not mapped to a drive using the ${mapping} mapping`,
+    );
+  }
+
+  /**
+   * lexically normalize this path, removing `.` and empty elements and resolving `..`
+   * against the preceding element. `..` never climbs above the root of an anchored path,
+   * verbatim (`\\?\`) paths are returned unchanged as windows does not normalize them
+   * ```ts
+   * new PurePath("/a/./b/../c").normalize().toString(); // "/a/c"
+   * ```
+   * @returns a new normalized PurePath
+   */
+  public normalize(): PurePath {
+    if (this.pathRoot.verbatim) {
+      return this.derive(this.pathRoot, [...this.pathElements]);
+    }
+    const anchored = this.pathRoot.kind !== "relative" &&
+      !(this.pathRoot.kind === "drive" && !this.pathRoot.absolute);
+    const normalized = new Array<string>();
+    for (const e of this.pathElements) {
+      if (e === "" || e === ".") {
+        continue;
+      }
+      if (e === "..") {
+        if (
+          normalized.length && normalized[normalized.length - 1] !== ".."
+        ) {
+          normalized.pop();
+          continue;
+        }
+        if (anchored) {
+          continue;
+        }
+      }
+      normalized.push(e);
+    }
+    if (!normalized.length && this.pathRoot.kind === "relative") {
+      normalized.push(".");
+    }
+    return this.derive(this.pathRoot, normalized);
+  }
+
+  /**
+   * resolve this path into an absolute normalized path, relative paths are anchored at `base`
+   * on windows a rooted path (`\foo`) takes the drive of `base` and a drive relative path (`C:foo`)
+   * is anchored at `base` only if it is on the same drive, otherwise at the root of its drive
+   * @param base the absolute path to resolve against
+   * @throws Error if `base` is not absolute
+   * @returns a new resolved PurePath
+   */
+  public resolve(base: PurePath | string): PurePath {
+    if (this.isAbsolute) {
+      return this.normalize();
+    }
+    const bp = this.coerce(base);
+    if (!bp.isAbsolute) {
+      throw new Error(
+        `can not resolve against ${bp.toString()}, it is not absolute`,
+      );
+    }
+    switch (this.pathRoot.kind) {
+      case "root":
+        return this.derive(bp.pathRoot, [...this.pathElements]).normalize();
+      case "drive":
+        if (
+          bp.pathRoot.kind === "drive" &&
+          bp.pathRoot.drive!.toUpperCase() ===
+            this.pathRoot.drive!.toUpperCase()
+        ) {
+          return this.derive(
+            { ...this.pathRoot, absolute: true },
+            bp.pathElements.concat(this.pathElements),
+          ).normalize();
+        }
+        return this.derive(
+          { ...this.pathRoot, absolute: true },
+          [...this.pathElements],
+        ).normalize();
+      default:
+        return this.derive(
+          bp.pathRoot,
+          bp.pathElements.concat(this.pathElements),
+        ).normalize();
+    }
+  }
+
+  /**
+   * checks if two roots anchor the same location, windows roots are compared case insensitively
+   */
+  private sameRoot(other: PurePath): boolean {
+    const x = this.pathRoot;
+    const y = other.pathRoot;
+    if (x.kind !== y.kind || x.absolute !== y.absolute) {
+      return false;
+    }
+    const ci = _isWindowsSeparators(this.separators);
+    const eq = (a?: string, b?: string) =>
+      ci ? a?.toUpperCase() === b?.toUpperCase() : a === b;
+    return eq(x.drive, y.drive) && eq(x.server, y.server) &&
+      eq(x.share, y.share) && eq(x.device, y.device);
+  }
+
+  /**
+   * the normalized elements of this path without the placeholder `.` of an empty relative path
+   */
+  private normalizedElements(): string[] {
+    return this.normalize().pathElements.filter((e) => e !== ".");
+  }
+
+  /**
+   * the number of leading elements `x` and `y` have in common
+   */
+  private static commonLength(
+    x: string[],
+    y: string[],
+    caseInsensitive: boolean,
+  ): number {
+    let i = 0;
+    while (
+      i < x.length && i < y.length &&
+      (caseInsensitive
+        ? x[i].toUpperCase() === y[i].toUpperCase()
+        : x[i] === y[i])
+    ) {
+      i++;
+    }
+    return i;
+  }
+
+  /**
+   * compute the relative path that leads from `base` to this path, both paths are lexically normalized
+   * ```ts
+   * new PurePath("/a/b/a/c").relativeTo("/a").toString(); // "b/a/c"
+   * new PurePath("/a/c").relativeTo("/a/b").toString(); // "../c"
+   * ```
+   * @param base the path the result will be relative to
+   * @throws Error if the paths do not share a root or `base` climbs out of the common part with `..`
+   * @returns a new relative PurePath, `.` if both paths are the same
+   */
+  public relativeTo(base: PurePath | string): PurePath {
+    const bp = this.coerce(base);
+    if (!this.sameRoot(bp)) {
+      throw new Error(
+        `${this.toString()} and ${bp.toString()} do not share a common root`,
+      );
+    }
+    const xe = this.normalizedElements();
+    const ye = bp.normalizedElements();
+    const common = PurePath.commonLength(
+      xe,
+      ye,
+      _isWindowsSeparators(this.separators),
+    );
+    const up = ye.slice(common);
+    if (up.indexOf("..") !== -1) {
+      throw new Error(
+        `can not compute a path relative to ${bp.toString()} from ${this.toString()}`,
+      );
+    }
+    const elements = up.map(() => "..").concat(xe.slice(common));
+    if (!elements.length) {
+      elements.push(".");
+    }
+    return this.derive(
+      { kind: "relative", verbatim: false, absolute: false },
+      elements,
+    );
+  }
+
+  /**
+   * the elements and rendered root used for comparisons, `.` and empty elements are dropped
+   */
+  private comparable(caseSensitive?: boolean): [string, string[]] {
+    const ci = !(caseSensitive ?? !_isWindowsSeparators(this.separators));
+    const fold = (e: string) => ci ? e.toLowerCase() : e;
+    const root = _renderRoot({ ...this.pathRoot, verbatim: false }, "/");
+    return [
+      fold(root),
+      this.pathElements.filter((e) => e !== "" && e !== ".").map(fold),
+    ];
+  }
+
+  /**
+   * checks if two paths are the same, `.` and empty elements are ignored but `..` is not resolved
+   * ```ts
+   * new PurePath("C:\\Users\\Me", WINDOWS_SEPS).equals("c:/users/me/"); // true
+   * ```
+   * @param other the path to compare to
+   * @param options whether the comparison is case sensitive, defaults to false for windows separators
+   */
+  public equals(
+    other: PurePath | string,
+    { caseSensitive }: CompareOptions = {},
+  ): boolean {
+    return this.compare(other, { caseSensitive }) === 0;
+  }
+
+  /**
+   * order this path relative to `other`, roots are compared first then each element in turn
+   * @param other the path to compare to
+   * @param options case sensitivity and whether digits are compared naturally
+   * @returns a negative number if this path sorts first, zero if they are equal and positive otherwise
+   */
+  public compare(
+    other: PurePath | string,
+    { caseSensitive, natural = false }: CompareOptions = {},
+  ): number {
+    const [xr, xe] = this.comparable(caseSensitive);
+    const [yr, ye] = this.coerce(other).comparable(caseSensitive);
+    const rootOrder = compareStrings(xr, yr, false);
+    if (rootOrder !== 0) {
+      return rootOrder;
+    }
+    for (let i = 0; i < xe.length && i < ye.length; i++) {
+      const order = compareStrings(xe[i], ye[i], natural);
+      if (order !== 0) {
+        return order;
+      }
+    }
+    return xe.length - ye.length;
+  }
+
+  /**
+   * compare two paths, suitable as a sort comparator
+   * ```ts
+   * paths.sort(PurePath.compare);
+   * ```
+   */
+  public static compare(x: PurePath, y: PurePath): number {
+    return x.compare(y);
+  }
+
+  /**
+   * a string that is the same for all paths that are `equals`, suitable as a `Map` or `Set` key
+   * @param options whether the key is case sensitive, defaults to false for windows separators
+   */
+  public key({ caseSensitive }: CompareOptions = {}): string {
+    const [root, elements] = this.comparable(caseSensitive);
+    return root + elements.map((e) => e.replace(/[\\/]/g, "\\$&")).join("/");
+  }
+
+  /**
+   * checks if this path lexically starts with all elements of `other`, both paths are normalized
+   * @param other the prefix to check for
+   */
+  public startsWith(other: PurePath | string): boolean {
+    const op = this.coerce(other);
+    if (!this.sameRoot(op)) {
+      return false;
+    }
+    const xe = this.normalizedElements();
+    const ye = op.normalizedElements();
+    return PurePath.commonLength(
+      xe,
+      ye,
+      _isWindowsSeparators(this.separators),
+    ) === ye.length;
+  }
+
+  /**
+   * checks if this path is a strict ancestor of `other`
+   * @param other the possible descendant
+   */
+  public isAncestorOf(other: PurePath | string): boolean {
+    const op = this.coerce(other);
+    return op.startsWith(this) &&
+      op.normalizedElements().length > this.normalizedElements().length;
+  }
+
+  /**
+   * checks if this path is a strict descendant of `other`
+   * @param other the possible ancestor
+   */
+  public isDescendantOf(other: PurePath | string): boolean {
+    return this.coerce(other).isAncestorOf(this);
+  }
+
+  /**
+   * this path followed by each of its ancestors up to the root, the path is normalized first
+   * ```ts
+   * [...new PurePath("/a/b").ancestors()].map(String); // ["/a/b", "/a", "/"]
+   * ```
+   * relative paths end at `.`, resolve them first to climb above it
+   */
+  public *ancestors(): IterableIterator<PurePath> {
+    const np = this.normalize();
+    const elements = np.pathElements.filter((e) => e !== ".");
+    for (let length = elements.length; length > 0; length--) {
+      yield this.derive(np.pathRoot, elements.slice(0, length));
+    }
+    yield this.derive(
+      np.pathRoot,
+      np.pathRoot.kind === "relative" ? ["."] : [],
+    );
+  }
+
+  /**
+   * finds the deepest path all of the given paths descend from or are equal to
+   * @param paths the paths to be compared, they are lexically normalized
+   * @returns a new PurePath or null if no paths are given or they do not share a root
+   */
+  public static commonAncestor(...paths: PurePath[]): PurePath | null {
+    if (!paths.length) {
+      return null;
+    }
+    const first = paths[0];
+    let common = first.normalizedElements();
+    for (let i = 1; i < paths.length; i++) {
+      if (!first.sameRoot(paths[i])) {
+        return null;
+      }
+      const len = PurePath.commonLength(
+        common,
+        paths[i].normalizedElements(),
+        _isWindowsSeparators(first.separators),
+      );
+      common = common.slice(0, len);
+    }
+    if (!common.length && first.pathRoot.kind === "relative") {
+      common.push(".");
+    }
+    return first.derive(first.pathRoot, common);
+  }
+
+  /**
+   * append untrusted path fragments making sure the result stays within this path
+   * fragments are lexically normalized so `..` may be used as long as it does not climb out
+   * ```ts
+   * new PurePath("/srv/files").joinSafe("a/../b.txt").toString(); // "/srv/files/b.txt"
+   * new PurePath("/srv/files").joinSafe("../etc/passwd"); // throws PathTraversalError
+   * ```
+   * @param parts strings denoting path fragments
+   * @throws PathTraversalError if a fragment is rooted or the result leaves this path
+   * @returns a new normalized PurePath
+   */
+  public joinSafe(...parts: string[]): PurePath {
+    for (const part of parts) {
+      if (new PurePath(part, this.separators).pathRoot.kind !== "relative") {
+        throw new PathTraversalError(this.toString(), part);
+      }
+    }
+    return PurePath.within(this, this.join(...parts));
+  }
+
+  /**
+   * lexically confine `candidate` to `root`, relative candidates are anchored at `root`
+   * this does not touch the filesystem, use `Path.within` to also take symlinks into account
+   * @param root the path the candidate has to stay within
+   * @param candidate the path to be checked
+   * @throws PathTraversalError if the normalized candidate leaves `root`
+   * @returns the normalized candidate
+   */
+  public static within(
+    root: PurePath | string,
+    candidate: PurePath | string,
+  ): PurePath {
+    const rp = typeof root === "string" ? new PurePath(root) : root;
+    let cp = rp.coerce(candidate);
+    if (cp.pathRoot.kind === "relative") {
+      cp = rp.derive(rp.pathRoot, rp.pathElements.concat(cp.pathElements));
+    }
+    cp = cp.normalize();
+    const rest = cp.normalizedElements().slice(rp.normalizedElements().length);
+    // a relative root can not stop leading `..` elements so they are checked for explicitly
+    if (!cp.startsWith(rp) || rest.indexOf("..") !== -1) {
+      throw new PathTraversalError(rp.toString(), cp.toString());
+    }
+    return cp;
+  }
+
+  /**
+   * checks if this path matches a glob pattern, supports `*`, `**`, `?`, character classes
+   * such as `[a-z]` or `[!a-z]` and brace expansion like `{ts,js}`.
+   * absolute patterns must match the whole path while relative ones are matched from the right
+   * matching is case insensitive by default for windows separators
+   * ```ts
+   * new PurePath("/home/me/src/lib/mod.ts").matches("src/**\/*.{ts,js}"); // true
+   * ```
+   * @param pattern the glob pattern, it is split using this path's separators
+   * @param options whether wildcards match dotfiles and if the match is case sensitive
+   */
+  public matches(pattern: string, options: GlobMatchOptions = {}): boolean {
+    const opts = {
+      dot: options.dot ?? false,
+      caseSensitive: options.caseSensitive ??
+        !_isWindowsSeparators(this.separators),
+    };
+    const elements = this.pathElements.filter((e) => e !== "");
+    return _expandBraces(pattern).some((expanded) => {
+      const pp = new PurePath(expanded, this.separators);
+      const segments = pp.pathElements.filter((e) => e !== "");
+      if (pp.pathRoot.kind !== "relative") {
+        return this.sameRoot(pp) && _matchSegments(segments, elements, opts);
+      }
+      for (let start = 0; start <= elements.length; start++) {
+        if (_matchSegments(segments, elements.slice(start), opts)) {
+          return true;
+        }
+      }
+      return false;
+    });
+  }
+
+  /**
+   * check whether this path can be created on the given platforms, the root is not checked
+   * ```ts
+   * new PurePath("docs/aux.txt").validate(); // [{ kind: "reserved-name", index: 1, ... }]
+   * ```
+   * @param options the rules to validate against, defaults to `portable`
+   * @returns every problem found, empty if the path is valid
+   */
+  public validate(
+    { flavor = "portable" }: ValidateOptions = {},
+  ): PathProblem[] {
+    const problems = new Array<PathProblem>();
+    this.pathElements.forEach((e, i) =>
+      problems.push(..._validateElement(e, i, flavor))
+    );
+    problems.push(
+      ..._validateLength(this.toString(), flavor, this.pathRoot.verbatim),
+    );
+    return problems;
+  }
+
+  /**
+   * replace forbidden and control characters, strip trailing spaces and dots, suffix reserved
+   * names and truncate long elements keeping short extensions, the total length is not changed
+   * ```ts
+   * new PurePath("out/CON.txt").sanitize().toString(); // "out/CON_.txt"
+   * new PurePath("a:b?. ").sanitize().toString(); // "a_b_"
+   * ```
+   * @param options the rules to sanitize for and the replacement character
+   * @throws Error if the replacement is empty or itself invalid
+   * @returns a new PurePath
+   */
+  public sanitize(
+    { flavor = "portable", replacement = "_" }: SanitizeOptions = {},
+  ): PurePath {
+    if (!replacement || _validateElement(replacement, 0, flavor).length) {
+      throw new Error(`invalid replacement: "${replacement}"`);
+    }
+    return this.derive(
+      this.pathRoot,
+      this.pathElements.map((e) => _sanitizeElement(e, flavor, replacement)),
+    );
+  }
+
+  /**
+   * returns the extension or null the dot will not be stripped
+   * dotfiles are considered extensionless, names ending in one of
+   * `PurePath.compoundExtensions` such as `.tar.gz` return the whole compound extension
+   */
+  get ext(): string | null {
+    const name = this.name;
+    const lower = name.toLowerCase();
+    for (const compound of PurePath.compoundExtensions) {
+      if (
+        name.length > compound.length &&
+        lower.endsWith(compound.toLowerCase())
+      ) {
+        return name.substring(name.length - compound.length);
+      }
+    }
+    const dotIndex = name.lastIndexOf(".");
+    if (dotIndex !== 0 && dotIndex !== -1) {
+      return name.substr(dotIndex);
+    } else {
+      return null;
+    }
+  }
+
+  /**
+   * the name of this path without its extension, see `ext`
+   * ```ts
+   * new PurePath("/backups/site.tar.gz").stem; // "site"
+   * ```
+   */
+  get stem(): string {
+    const ext = this.ext;
+    return ext
+      ? this.name.substring(0, this.name.length - ext.length)
+      : this.name;
+  }
+
+  /**
+   * every extension of this path's name in order, leading dots of dotfiles are not extensions
+   * ```ts
+   * new PurePath("site.tar.gz").suffixes; // [".tar", ".gz"]
+   * ```
+   */
+  get suffixes(): string[] {
+    const parts = this.name.replace(/^\.+/, "").split(".");
+    return parts.slice(1).map((part) => "." + part);
+  }
+
+  /**
+   * replace the extension of this path, see `ext`
+   * ```ts
+   * new PurePath("data.yaml").withExt(".json").toString(); // "data.json"
+   * ```
+   * @param ext the new extension including its leading dot, an empty string removes it
+   * @throws Error if the extension does not start with a dot or this path has no name
+   * @returns a new PurePath
+   */
+  public withExt(ext: string): PurePath {
+    if (ext && (ext[0] !== "." || ext === ".")) {
+      throw new Error(`invalid extension: "${ext}"`);
+    }
+    return this.withName(this.stem + ext);
+  }
+
+  /**
+   * replace the name of this path keeping its extension
+   * @param stem the new name without extension
+   * @throws Error if the result is not a valid name
+   * @returns a new PurePath
+   */
+  public withStem(stem: string): PurePath {
+    return this.withName(stem + (this.ext ?? ""));
+  }
+
+  /**
+   * the elements of this path, the returned array is a frozen copy so changing it throws
+   * a TypeError instead of silently not affecting the path, use `withElements` instead
+   */
+  get elements(): readonly string[] {
+    return Object.freeze([...this.pathElements]);
+  }
+
+  get separatorList(): string[] {
+    return [...this.separators];
+  }
+
+  /**
+   * the root this path is anchored at
+   * ```ts
+   * const path = new PurePath("\\\\server\\share\\file.txt", WINDOWS_SEPS);
+   * path.root; // { kind: "unc", server: "server", share: "share", ... }
+   * ```
+   */
+  get root(): PathRoot {
+    return { ...this.pathRoot };
+  }
+
+  /**
+   * whether this path is fully anchored, on windows this requires a drive, UNC share or device
+   */
+  get isAbsolute(): boolean {
+    return this.pathRoot.absolute;
+  }
+
+  /**
+   * returns the drive of this path or null, the drive of UNC and device paths is their whole root
+   * ```ts
+   * new PurePath("C:\\Users", WINDOWS_SEPS).drive; // "C:"
+   * new PurePath("\\\\server\\share\\dir", WINDOWS_SEPS).drive; // "\\\\server\\share"
+   * ```
+   */
+  get drive(): string | null {
+    const { kind } = this.pathRoot;
+    if (kind === "drive") {
+      return this.pathRoot.drive!;
+    }
+    if (kind === "unc" || kind === "device") {
+      return _renderRoot(this.pathRoot, this.separators[0]);
+    }
+    return null;
+  }
+}
@@ -0,0 +1,621 @@
+// Copyright 2020 Matheus Xavier all rights reserved. MIT licensed
+
+/**
+ * the digest algorithms supported by `hash` and `hashTree`
+ */
+export type HashAlgorithm = "SHA-1" | "SHA-256" | "SHA-384" | "SHA-512";
+
+/**
+ * an incremental digest, data is fed in chunks so it never has to be in memory at once
+ */
+export interface Hasher {
+  /** feed the next chunk of data */
+  update(data: Uint8Array): void;
+  /** finish the digest, the hasher can not be used afterwards */
+  digest(): Uint8Array;
+}
+
+// the round constants and initial values of FIPS 180-4, 64 bit words are split into high and low halves
+const K256 = Int32Array.from([
+  0x428a2f98,
+  0x71374491,
+  0xb5c0fbcf,
+  0xe9b5dba5,
+  0x3956c25b,
+  0x59f111f1,
+  0x923f82a4,
+  0xab1c5ed5,
+  0xd807aa98,
+  0x12835b01,
+  0x243185be,
+  0x550c7dc3,
+  0x72be5d74,
+  0x80deb1fe,
+  0x9bdc06a7,
+  0xc19bf174,
+  0xe49b69c1,
+  0xefbe4786,
+  0x0fc19dc6,
+  0x240ca1cc,
+  0x2de92c6f,
+  0x4a7484aa,
+  0x5cb0a9dc,
+  0x76f988da,
+  0x983e5152,
+  0xa831c66d,
+  0xb00327c8,
+  0xbf597fc7,
+  0xc6e00bf3,
+  0xd5a79147,
+  0x06ca6351,
+  0x14292967,
+  0x27b70a85,
+  0x2e1b2138,
+  0x4d2c6dfc,
+  0x53380d13,
+  0x650a7354,
+  0x766a0abb,
+  0x81c2c92e,
+  0x92722c85,
+  0xa2bfe8a1,
+  0xa81a664b,
+  0xc24b8b70,
+  0xc76c51a3,
+  0xd192e819,
+  0xd6990624,
+  0xf40e3585,
+  0x106aa070,
+  0x19a4c116,
+  0x1e376c08,
+  0x2748774c,
+  0x34b0bcb5,
+  0x391c0cb3,
+  0x4ed8aa4a,
+  0x5b9cca4f,
+  0x682e6ff3,
+  0x748f82ee,
+  0x78a5636f,
+  0x84c87814,
+  0x8cc70208,
+  0x90befffa,
+  0xa4506ceb,
+  0xbef9a3f7,
+  0xc67178f2,
+]);
+const IV256 = [
+  0x6a09e667,
+  0xbb67ae85,
+  0x3c6ef372,
+  0xa54ff53a,
+  0x510e527f,
+  0x9b05688c,
+  0x1f83d9ab,
+  0x5be0cd19,
+];
+const K512 = Int32Array.from([
+  0x428a2f98,
+  0xd728ae22,
+  0x71374491,
+  0x23ef65cd,
+  0xb5c0fbcf,
+  0xec4d3b2f,
+  0xe9b5dba5,
+  0x8189dbbc,
+  0x3956c25b,
+  0xf348b538,
+  0x59f111f1,
+  0xb605d019,
+  0x923f82a4,
+  0xaf194f9b,
+  0xab1c5ed5,
+  0xda6d8118,
+  0xd807aa98,
+  0xa3030242,
+  0x12835b01,
+  0x45706fbe,
+  0x243185be,
+  0x4ee4b28c,
+  0x550c7dc3,
+  0xd5ffb4e2,
+  0x72be5d74,
+  0xf27b896f,
+  0x80deb1fe,
+  0x3b1696b1,
+  0x9bdc06a7,
+  0x25c71235,
+  0xc19bf174,
+  0xcf692694,
+  0xe49b69c1,
+  0x9ef14ad2,
+  0xefbe4786,
+  0x384f25e3,
+  0x0fc19dc6,
+  0x8b8cd5b5,
+  0x240ca1cc,
+  0x77ac9c65,
+  0x2de92c6f,
+  0x592b0275,
+  0x4a7484aa,
+  0x6ea6e483,
+  0x5cb0a9dc,
+  0xbd41fbd4,
+  0x76f988da,
+  0x831153b5,
+  0x983e5152,
+  0xee66dfab,
+  0xa831c66d,
+  0x2db43210,
+  0xb00327c8,
+  0x98fb213f,
+  0xbf597fc7,
+  0xbeef0ee4,
+  0xc6e00bf3,
+  0x3da88fc2,
+  0xd5a79147,
+  0x930aa725,
+  0x06ca6351,
+  0xe003826f,
+  0x14292967,
+  0x0a0e6e70,
+  0x27b70a85,
+  0x46d22ffc,
+  0x2e1b2138,
+  0x5c26c926,
+  0x4d2c6dfc,
+  0x5ac42aed,
+  0x53380d13,
+  0x9d95b3df,
+  0x650a7354,
+  0x8baf63de,
+  0x766a0abb,
+  0x3c77b2a8,
+  0x81c2c92e,
+  0x47edaee6,
+  0x92722c85,
+  0x1482353b,
+  0xa2bfe8a1,
+  0x4cf10364,
+  0xa81a664b,
+  0xbc423001,
+  0xc24b8b70,
+  0xd0f89791,
+  0xc76c51a3,
+  0x0654be30,
+  0xd192e819,
+  0xd6ef5218,
+  0xd6990624,
+  0x5565a910,
+  0xf40e3585,
+  0x5771202a,
+  0x106aa070,
+  0x32bbd1b8,
+  0x19a4c116,
+  0xb8d2d0c8,
+  0x1e376c08,
+  0x5141ab53,
+  0x2748774c,
+  0xdf8eeb99,
+  0x34b0bcb5,
+  0xe19b48a8,
+  0x391c0cb3,
+  0xc5c95a63,
+  0x4ed8aa4a,
+  0xe3418acb,
+  0x5b9cca4f,
+  0x7763e373,
+  0x682e6ff3,
+  0xd6b2b8a3,
+  0x748f82ee,
+  0x5defb2fc,
+  0x78a5636f,
+  0x43172f60,
+  0x84c87814,
+  0xa1f0ab72,
+  0x8cc70208,
+  0x1a6439ec,
+  0x90befffa,
+  0x23631e28,
+  0xa4506ceb,
+  0xde82bde9,
+  0xbef9a3f7,
+  0xb2c67915,
+  0xc67178f2,
+  0xe372532b,
+  0xca273ece,
+  0xea26619c,
+  0xd186b8c7,
+  0x21c0c207,
+  0xeada7dd6,
+  0xcde0eb1e,
+  0xf57d4f7f,
+  0xee6ed178,
+  0x06f067aa,
+  0x72176fba,
+  0x0a637dc5,
+  0xa2c898a6,
+  0x113f9804,
+  0xbef90dae,
+  0x1b710b35,
+  0x131c471b,
+  0x28db77f5,
+  0x23047d84,
+  0x32caab7b,
+  0x40c72493,
+  0x3c9ebe0a,
+  0x15c9bebc,
+  0x431d67c4,
+  0x9c100d4c,
+  0x4cc5d4be,
+  0xcb3e42b6,
+  0x597f299c,
+  0xfc657e2a,
+  0x5fcb6fab,
+  0x3ad6faec,
+  0x6c44198c,
+  0x4a475817,
+]);
+const IV384 = [
+  0xcbbb9d5d,
+  0xc1059ed8,
+  0x629a292a,
+  0x367cd507,
+  0x9159015a,
+  0x3070dd17,
+  0x152fecd8,
+  0xf70e5939,
+  0x67332667,
+  0xffc00b31,
+  0x8eb44a87,
+  0x68581511,
+  0xdb0c2e0d,
+  0x64f98fa7,
+  0x47b5481d,
+  0xbefa4fa4,
+];
+const IV512 = [
+  0x6a09e667,
+  0xf3bcc908,
+  0xbb67ae85,
+  0x84caa73b,
+  0x3c6ef372,
+  0xfe94f82b,
+  0xa54ff53a,
+  0x5f1d36f1,
+  0x510e527f,
+  0xade682d1,
+  0x9b05688c,
+  0x2b3e6c1f,
+  0x1f83d9ab,
+  0xfb41bd6b,
+  0x5be0cd19,
+  0x137e2179,
+];
+
+/** rotate a 32 bit word right */
+function rotr(x: number, n: number): number {
+  return (x >>> n) | (x << (32 - n));
+}
+
+/** the high half of a 64 bit word rotated right, `n` must not be 0 or 32 */
+function rotrHi(hi: number, lo: number, n: number): number {
+  return n < 32
+    ? (hi >>> n) | (lo << (32 - n))
+    : (lo >>> (n - 32)) | (hi << (64 - n));
+}
+
+/** the low half of a 64 bit word rotated right, `n` must not be 0 or 32 */
+function rotrLo(hi: number, lo: number, n: number): number {
+  return n < 32
+    ? (lo >>> n) | (hi << (32 - n))
+    : (hi >>> (n - 32)) | (lo << (64 - n));
+}
+
+/**
+ * the carry out of a sum of low halves, each has to be passed through `>>> 0` first
+ */
+function carry(lo: number): number {
+  return Math.floor(lo / 0x100000000);
+}
+
+/**
+ * buffers data into blocks and applies the Merkle–Damgård padding shared by the SHA family
+ */
+abstract class BlockHasher implements Hasher {
+  private readonly buffer: Uint8Array;
+  private readonly view: DataView;
+  private buffered = 0;
+  private length = 0;
+
+  /**
+   * @param blockSize the size of a block in bytes
+   * @param lengthSize the size of the message length appended by the padding in bytes
+   */
+  protected constructor(
+    private readonly blockSize: number,
+    private readonly lengthSize: number,
+  ) {
+    this.buffer = new Uint8Array(blockSize);
+    this.view = new DataView(this.buffer.buffer);
+  }
+
+  /** process the block starting at `offset` */
+  protected abstract compress(view: DataView, offset: number): void;
+
+  /** the final state as bytes */
+  protected abstract output(): Uint8Array;
+
+  update(data: Uint8Array): void {
+    this.length += data.length;
+    let i = 0;
+    if (this.buffered > 0) {
+      i = Math.min(data.length, this.blockSize - this.buffered);
+      this.buffer.set(data.subarray(0, i), this.buffered);
+      this.buffered += i;
+      if (this.buffered < this.blockSize) {
+        return;
+      }
+      this.compress(this.view, 0);
+      this.buffered = 0;
+    }
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    for (; i + this.blockSize <= data.length; i += this.blockSize) {
+      this.compress(view, i);
+    }
+    this.buffer.set(data.subarray(i));
+    this.buffered = data.length - i;
+  }
+
+  digest(): Uint8Array {
+    const bits = this.length * 8;
+    const zeros = (this.blockSize -
+      (this.buffered + 1 + this.lengthSize) % this.blockSize) %
+      this.blockSize;
+    const padding = new Uint8Array(1 + zeros + this.lengthSize);
+    const view = new DataView(padding.buffer);
+    padding[0] = 0x80;
+    view.setUint32(padding.length - 8, Math.floor(bits / 0x100000000));
+    view.setUint32(padding.length - 4, bits >>> 0);
+    this.update(padding);
+    return this.output();
+  }
+}
+
+class Sha1 extends BlockHasher {
+  private readonly h = Int32Array.from([
+    0x67452301,
+    0xefcdab89,
+    0x98badcfe,
+    0x10325476,
+    0xc3d2e1f0,
+  ]);
+  private readonly w = new Int32Array(80);
+
+  constructor() {
+    super(64, 8);
+  }
+
+  protected compress(view: DataView, offset: number): void {
+    const w = this.w;
+    for (let t = 0; t < 16; t++) {
+      w[t] = view.getInt32(offset + t * 4);
+    }
+    for (let t = 16; t < 80; t++) {
+      w[t] = rotr(w[t - 3] ^ w[t - 8] ^ w[t - 14] ^ w[t - 16], 31);
+    }
+    let [a, b, c, d, e] = this.h;
+    for (let t = 0; t < 80; t++) {
+      let f: number, k: number;
+      if (t < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a827999;
+      } else if (t < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ed9eba1;
+      } else if (t < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f1bbcdc;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca62c1d6;
+      }
+      const temp = (rotr(a, 27) + f + e + k + w[t]) | 0;
+      e = d;
+      d = c;
+      c = rotr(b, 2);
+      b = a;
+      a = temp;
+    }
+    const h = this.h;
+    h[0] += a;
+    h[1] += b;
+    h[2] += c;
+    h[3] += d;
+    h[4] += e;
+  }
+
+  protected output(): Uint8Array {
+    return bigEndian(this.h, 20);
+  }
+}
+
+class Sha256 extends BlockHasher {
+  private readonly h = Int32Array.from(IV256);
+  private readonly w = new Int32Array(64);
+
+  constructor() {
+    super(64, 8);
+  }
+
+  protected compress(view: DataView, offset: number): void {
+    const w = this.w;
+    for (let t = 0; t < 16; t++) {
+      w[t] = view.getInt32(offset + t * 4);
+    }
+    for (let t = 16; t < 64; t++) {
+      const x = w[t - 15];
+      const y = w[t - 2];
+      const s0 = rotr(x, 7) ^ rotr(x, 18) ^ (x >>> 3);
+      const s1 = rotr(y, 17) ^ rotr(y, 19) ^ (y >>> 10);
+      w[t] = w[t - 16] + s0 + w[t - 7] + s1;
+    }
+    let [a, b, c, d, e, f, g, h] = this.h;
+    for (let t = 0; t < 64; t++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (h + s1 + ch + K256[t] + w[t]) | 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + s0 + maj) | 0;
+    }
+    const state = this.h;
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+    state[4] += e;
+    state[5] += f;
+    state[6] += g;
+    state[7] += h;
+  }
+
+  protected output(): Uint8Array {
+    return bigEndian(this.h, 32);
+  }
+}
+
+/**
+ * SHA-512 and its truncated variant SHA-384, javascript has no 64 bit integers
+ * so every word is kept as a high and a low 32 bit half
+ */
+class Sha512 extends BlockHasher {
+  private readonly h: Int32Array;
+  private readonly w = new Int32Array(160);
+  private readonly v = new Int32Array(16);
+
+  /**
+   * @param iv the initial state
+   * @param size the size of the digest in bytes
+   */
+  constructor(iv: number[], private readonly size: number) {
+    super(128, 16);
+    this.h = Int32Array.from(iv);
+  }
+
+  protected compress(view: DataView, offset: number): void {
+    const w = this.w;
+    for (let i = 0; i < 32; i++) {
+      w[i] = view.getInt32(offset + i * 4);
+    }
+    for (let i = 32; i < 160; i += 2) {
+      const xh = w[i - 30], xl = w[i - 29];
+      const s0h = rotrHi(xh, xl, 1) ^ rotrHi(xh, xl, 8) ^ (xh >>> 7);
+      const s0l = rotrLo(xh, xl, 1) ^ rotrLo(xh, xl, 8) ^
+        ((xl >>> 7) | (xh << 25));
+      const yh = w[i - 4], yl = w[i - 3];
+      const s1h = rotrHi(yh, yl, 19) ^ rotrHi(yh, yl, 61) ^ (yh >>> 6);
+      const s1l = rotrLo(yh, yl, 19) ^ rotrLo(yh, yl, 61) ^
+        ((yl >>> 6) | (yh << 26));
+      const lo = (w[i - 31] >>> 0) + (s0l >>> 0) + (w[i - 13] >>> 0) +
+        (s1l >>> 0);
+      w[i] = w[i - 32] + s0h + w[i - 14] + s1h + carry(lo);
+      w[i + 1] = lo;
+    }
+    // the working variables a to h, each as a high and a low half
+    const v = this.v;
+    v.set(this.h);
+    for (let i = 0; i < 160; i += 2) {
+      const eh = v[8], el = v[9];
+      const s1h = rotrHi(eh, el, 14) ^ rotrHi(eh, el, 18) ^
+        rotrHi(eh, el, 41);
+      const s1l = rotrLo(eh, el, 14) ^ rotrLo(eh, el, 18) ^
+        rotrLo(eh, el, 41);
+      const chh = (eh & v[10]) ^ (~eh & v[12]);
+      const chl = (el & v[11]) ^ (~el & v[13]);
+      const t1l = (v[15] >>> 0) + (s1l >>> 0) + (chl >>> 0) +
+        (K512[i + 1] >>> 0) + (w[i + 1] >>> 0);
+      const t1h = (v[14] + s1h + chh + K512[i] + w[i] + carry(t1l)) | 0;
+      const ah = v[0], al = v[1];
+      const s0h = rotrHi(ah, al, 28) ^ rotrHi(ah, al, 34) ^
+        rotrHi(ah, al, 39);
+      const s0l = rotrLo(ah, al, 28) ^ rotrLo(ah, al, 34) ^
+        rotrLo(ah, al, 39);
+      const majh = (ah & v[2]) ^ (ah & v[4]) ^ (v[2] & v[4]);
+      const majl = (al & v[3]) ^ (al & v[5]) ^ (v[3] & v[5]);
+      const t2l = (s0l >>> 0) + (majl >>> 0);
+      const t2h = s0h + majh + carry(t2l);
+      // h = g, g = f, f = e, e = d, d = c, c = b, b = a
+      v.copyWithin(2, 0, 14);
+      const el2 = (v[9] >>> 0) + (t1l >>> 0);
+      v[8] += t1h + carry(el2);
+      v[9] = el2;
+      const al2 = (t1l >>> 0) + (t2l >>> 0);
+      v[0] = t1h + t2h + carry(al2);
+      v[1] = al2;
+    }
+    const h = this.h;
+    for (let i = 0; i < 16; i += 2) {
+      const lo = (h[i + 1] >>> 0) + (v[i + 1] >>> 0);
+      h[i] += v[i] + carry(lo);
+      h[i + 1] = lo;
+    }
+  }
+
+  protected output(): Uint8Array {
+    return bigEndian(this.h, this.size);
+  }
+}
+
+/**
+ * the first `size` bytes of some 32 bit words in big endian order
+ */
+function bigEndian(words: Int32Array, size: number): Uint8Array {
+  const bytes = new Uint8Array(words.length * 4);
+  const view = new DataView(bytes.buffer);
+  words.forEach((word, i) => view.setInt32(i * 4, word));
+  return bytes.slice(0, size);
+}
+
+/**
+ * create an incremental hasher
+ * @param algorithm the digest algorithm
+ */
+export function _createHasher(algorithm: HashAlgorithm): Hasher {
+  switch (algorithm) {
+    case "SHA-1":
+      return new Sha1();
+    case "SHA-256":
+      return new Sha256();
+    case "SHA-384":
+      return new Sha512(IV384, 48);
+    case "SHA-512":
+      return new Sha512(IV512, 64);
+    default:
+      throw new TypeError(`unsupported digest algorithm: ${algorithm}`);
+  }
+}
+
+/**
+ * the digest of a sequence of chunks as lowercase hex, e.g. of a file's readable stream
+ * @param algorithm the digest algorithm
+ * @param chunks the data to digest
+ */
+export async function _digestHex(
+  algorithm: HashAlgorithm,
+  chunks: AsyncIterable<Uint8Array> | Iterable<Uint8Array>,
+): Promise<string> {
+  const hasher = _createHasher(algorithm);
+  for await (const chunk of chunks) {
+    hasher.update(chunk);
+  }
+  return Array.from(
+    hasher.digest(),
+    (b) => b.toString(16).padStart(2, "0"),
+  ).join("");
+}
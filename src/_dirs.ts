@@ -0,0 +1,124 @@
+// Copyright 2020 Matheus Xavier all rights reserved. MIT licensed
+import {
+  _homeDir,
+  _homeVar,
+  _lookupVar,
+  UndefinedVariableError,
+} from "./_expand.ts";
+import type { Environment } from "./_expand.ts";
+
+/**
+ * the kind of per user application directory
+ * * `config` settings the user may edit
+ * * `cache` data that can be deleted and recreated at any time
+ * * `data` files the application creates and needs to keep
+ * * `state` data that should survive a restart but is not worth backing up, e.g. logs and history
+ * * `runtime` sockets, pipes and lock files that only live as long as the session
+ */
+export type AppDirKind = "config" | "cache" | "data" | "state" | "runtime";
+
+/**
+ * options for locating the home and application directories
+ */
+export interface AppDirOptions {
+  /** the variables the directories are read from, defaults to the environment of the process */
+  env?: Environment;
+  /** the platform whose conventions are followed, defaults to `Deno.build.os` */
+  os?: typeof Deno.build.os;
+}
+
+/**
+ * the location of an application directory as path fragments
+ */
+export interface AppDirParts {
+  /** the base directory, the first fragment is an absolute path */
+  base: string[];
+  /** appended after the name of the application, if one is given */
+  suffix: string[];
+}
+
+/** the XDG base directory variables and their defaults below the home directory */
+const XDG: Record<Exclude<AppDirKind, "runtime">, [string, string[]]> = {
+  config: ["XDG_CONFIG_HOME", [".config"]],
+  cache: ["XDG_CACHE_HOME", [".cache"]],
+  data: ["XDG_DATA_HOME", [".local", "share"]],
+  state: ["XDG_STATE_HOME", [".local", "state"]],
+};
+
+/** where macOS keeps application directories below the home directory */
+const MACOS: Record<Exclude<AppDirKind, "runtime">, string[]> = {
+  config: ["Library", "Application Support"],
+  cache: ["Library", "Caches"],
+  data: ["Library", "Application Support"],
+  state: ["Library", "Application Support"],
+};
+
+/**
+ * the home directory of the current user
+ * @throws UndefinedVariableError if the environment does not contain it
+ */
+export function _requireHome(env: Environment, windows: boolean): string {
+  const home = _homeDir(env, windows);
+  if (!home) {
+    throw new UndefinedVariableError(_homeVar(windows));
+  }
+  return home;
+}
+
+/**
+ * locate an application directory following the conventions of a platform
+ * * windows: the Known Folders variables `APPDATA` and `LOCALAPPDATA`, caches go into
+ *   a `Cache` directory below the application's local one
+ * * darwin: `~/Library/Application Support` and `~/Library/Caches`
+ * * everything else: the XDG base directory specification, relative values are ignored
+ *   as the specification demands
+ * runtime directories fall back to the temporary folder where the platform has none
+ * @param kind the kind of directory
+ * @param env the variables to read
+ * @param os the platform whose conventions are followed
+ */
+export function _appDirParts(
+  kind: AppDirKind,
+  env: Environment,
+  os: typeof Deno.build.os,
+): AppDirParts {
+  if (os === "windows") {
+    const folder = (name: string, fallback: string[]) => {
+      const value = _lookupVar(env, name, true);
+      return value ? [value] : [_requireHome(env, true), ...fallback];
+    };
+    const local = () => folder("LOCALAPPDATA", ["AppData", "Local"]);
+    switch (kind) {
+      case "config":
+        return { base: folder("APPDATA", ["AppData", "Roaming"]), suffix: [] };
+      case "cache":
+        return { base: local(), suffix: ["Cache"] };
+      case "data":
+      case "state":
+        return { base: local(), suffix: [] };
+      case "runtime": {
+        const temp = _lookupVar(env, "TEMP", true) ||
+          _lookupVar(env, "TMP", true);
+        return { base: temp ? [temp] : [...local(), "Temp"], suffix: [] };
+      }
+    }
+  }
+  if (kind === "runtime") {
+    const runtime = os === "darwin" ? undefined : env.XDG_RUNTIME_DIR;
+    return {
+      base: [runtime?.startsWith("/") ? runtime : env.TMPDIR || "/tmp"],
+      suffix: [],
+    };
+  }
+  if (os === "darwin") {
+    return { base: [_requireHome(env, false), ...MACOS[kind]], suffix: [] };
+  }
+  const [name, fallback] = XDG[kind];
+  const value = env[name];
+  return {
+    base: value?.startsWith("/")
+      ? [value]
+      : [_requireHome(env, false), ...fallback],
+    suffix: [],
+  };
+}
@@ -0,0 +1,194 @@
+// Copyright 2020 Matheus Xavier all rights reserved. MIT licensed
+
+/**
+ * a set of environment variables, unset variables may be left out or be undefined
+ */
+export type Environment = Record<string, string | undefined>;
+
+/**
+ * options for expanding `~` and environment variables
+ */
+export interface ExpandOptions {
+  /** the variables to expand, defaults to the environment of the process */
+  env?: Environment;
+  /**
+   * throw an `UndefinedVariableError` for variables that are not set,
+   * by default they are left in the path as they were written
+   */
+  strict?: boolean;
+}
+
+/**
+ * thrown by a strict expansion when a referenced variable is not set
+ */
+export class UndefinedVariableError extends Error {
+  /**
+   * @param variable the name of the variable that is not set
+   */
+  constructor(public readonly variable: string) {
+    super(`environment variable ${variable} is not set`);
+    this.name = "UndefinedVariableError";
+  }
+}
+
+/**
+ * the given environment or the one of the process
+ * requires: --allow-env flag when `env` is not given
+ */
+export function _environment(env?: Environment): Environment {
+  return env ?? Deno.env.toObject();
+}
+
+/**
+ * look a variable up, windows variable names are case insensitive
+ * @param env the variables to look in
+ * @param name the name of the variable
+ * @param windows whether windows rules apply
+ */
+export function _lookupVar(
+  env: Environment,
+  name: string,
+  windows: boolean,
+): string | undefined {
+  if (env[name] !== undefined || !windows) {
+    return env[name];
+  }
+  const upper = name.toUpperCase();
+  for (const [key, value] of Object.entries(env)) {
+    if (key.toUpperCase() === upper) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * the home directory of the current user according to the environment
+ * windows uses `USERPROFILE` falling back to `HOMEDRIVE` and `HOMEPATH`, everything else `HOME`
+ * @param env the variables to look in
+ * @param windows whether windows rules apply
+ */
+export function _homeDir(
+  env: Environment,
+  windows: boolean,
+): string | undefined {
+  if (!windows) {
+    return env.HOME || undefined;
+  }
+  const profile = _lookupVar(env, "USERPROFILE", true);
+  if (profile) {
+    return profile;
+  }
+  const drive = _lookupVar(env, "HOMEDRIVE", true);
+  const path = _lookupVar(env, "HOMEPATH", true);
+  return drive && path ? drive + path : undefined;
+}
+
+/**
+ * the name of the variable `_homeDir` primarily reads, used for error messages
+ */
+export function _homeVar(windows: boolean): string {
+  return windows ? "USERPROFILE" : "HOME";
+}
+
+/**
+ * find the home directory of a user in the contents of an `/etc/passwd` file
+ * @param passwd the contents of the file
+ * @param user the name of the user
+ */
+export function _passwdHome(passwd: string, user: string): string | undefined {
+  for (const line of passwd.split("\n")) {
+    const fields = line.split(":");
+    if (fields.length >= 6 && fields[0] === user) {
+      return fields[5] || undefined;
+    }
+  }
+  return undefined;
+}
+
+const POSIX_NAME = /^[A-Za-z_][A-Za-z0-9_]*/;
+const POSIX_BRACED = /^([A-Za-z_][A-Za-z0-9_]*)(?:(:?-)([\s\S]*))?$/;
+// separators are excluded so a lone `%` in a name does not swallow the rest of the path
+const WINDOWS_VAR = /%([^%\\/]+)%/g;
+
+/**
+ * the index of the `}` closing the `{` at `open`, -1 if there is none
+ */
+function closingBrace(s: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < s.length; i++) {
+    if (s[i] === "{") {
+      depth++;
+    } else if (s[i] === "}" && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * expand the environment variables in a string
+ * * posix: `$VAR`, `${VAR}`, `${VAR:-default}` and `${VAR-default}`, defaults are expanded too
+ * * windows: `%VAR%`, names are case insensitive
+ * references to variables that are not set are kept as written unless `strict` is set
+ * @param s the string to be expanded
+ * @param env the variables to expand
+ * @param windows whether windows syntax is used
+ * @param strict whether unset variables throw an `UndefinedVariableError`
+ */
+export function _expandVars(
+  s: string,
+  env: Environment,
+  windows: boolean,
+  strict: boolean,
+): string {
+  const unset = (name: string, written: string) => {
+    if (strict) {
+      throw new UndefinedVariableError(name);
+    }
+    return written;
+  };
+  if (windows) {
+    return s.replace(
+      WINDOWS_VAR,
+      (written, name) => _lookupVar(env, name, true) ?? unset(name, written),
+    );
+  }
+  let result = "";
+  let i = 0;
+  while (i < s.length) {
+    if (s[i] !== "$") {
+      result += s[i++];
+      continue;
+    }
+    if (s[i + 1] === "{") {
+      const close = closingBrace(s, i + 1);
+      const match = close === -1
+        ? null
+        : s.substring(i + 2, close).match(POSIX_BRACED);
+      if (!match) {
+        // not a variable reference, e.g. an unterminated `${`
+        result += s[i++];
+        continue;
+      }
+      const [, name, operator, fallback] = match;
+      const written = s.substring(i, close + 1);
+      const value = env[name];
+      if (operator && (value === undefined || (operator === ":-" && !value))) {
+        result += _expandVars(fallback, env, windows, strict);
+      } else {
+        result += value ?? unset(name, written);
+      }
+      i = close + 1;
+      continue;
+    }
+    const name = s.substring(i + 1).match(POSIX_NAME)?.[0];
+    if (!name) {
+      result += s[i++];
+      continue;
+    }
+    result += env[name] ?? unset(name, "$" + name);
+    i += name.length + 1;
+  }
+  return result;
+}
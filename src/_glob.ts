@@ -0,0 +1,158 @@
+// Copyright 2020 Matheus Xavier all rights reserved. MIT licensed
+
+/**
+ * options controlling how glob patterns are matched
+ */
+export interface GlobMatchOptions {
+  /** whether wildcards match elements starting with a `.` */
+  dot?: boolean;
+  /** whether elements are compared case sensitively */
+  caseSensitive?: boolean;
+}
+
+/**
+ * checks if a pattern element contains any wildcard
+ * @param segment a single element of a glob pattern
+ */
+export function _isMagic(segment: string): boolean {
+  return /[*?[]/.test(segment);
+}
+
+/**
+ * find the index of the bracket closing the one at `open`, skipping nested pairs
+ */
+function findClosing(pattern: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < pattern.length; i++) {
+    if (pattern[i] === "{") {
+      depth++;
+    } else if (pattern[i] === "}") {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * expands brace alternatives, `a{b,c{d,e}}` expands to `ab`, `acd` and `ace`
+ * braces without a top level comma are kept literally
+ * @param pattern the pattern to be expanded
+ */
+export function _expandBraces(pattern: string): string[] {
+  for (let open = 0; open < pattern.length; open++) {
+    if (pattern[open] !== "{") {
+      continue;
+    }
+    const close = findClosing(pattern, open);
+    if (close === -1) {
+      return [pattern];
+    }
+    const alternatives = new Array<string>();
+    let depth = 0;
+    let start = open + 1;
+    for (let i = open + 1; i < close; i++) {
+      if (pattern[i] === "{") {
+        depth++;
+      } else if (pattern[i] === "}") {
+        depth--;
+      } else if (pattern[i] === "," && depth === 0) {
+        alternatives.push(pattern.substring(start, i));
+        start = i + 1;
+      }
+    }
+    if (!alternatives.length) {
+      continue;
+    }
+    alternatives.push(pattern.substring(start, close));
+    const head = pattern.substring(0, open);
+    const tail = pattern.substring(close + 1);
+    const expanded = new Array<string>();
+    for (const alternative of alternatives) {
+      expanded.push(..._expandBraces(head + alternative + tail));
+    }
+    return expanded;
+  }
+  return [pattern];
+}
+
+/**
+ * translate a single pattern element into a regular expression
+ * supports `*`, `?` and character classes such as `[a-z]` or the negated `[!a-z]`
+ * @param segment a single element of a glob pattern
+ * @param options the matching options
+ */
+export function _segmentToRegExp(
+  segment: string,
+  { dot = false, caseSensitive = true }: GlobMatchOptions = {},
+): RegExp {
+  let source = "";
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i];
+    if (char === "*") {
+      source += "[^]*";
+    } else if (char === "?") {
+      source += "[^]";
+    } else if (char === "[") {
+      const close = segment.indexOf("]", i + 2);
+      if (close === -1) {
+        source += "\\[";
+        continue;
+      }
+      let body = segment.substring(i + 1, close);
+      const negated = body[0] === "!" || body[0] === "^";
+      if (negated) {
+        body = body.substring(1);
+      }
+      source += (negated ? "[^" : "[") + body.replace(/[\\\]^]/g, "\\$&") +
+        "]";
+      i = close;
+    } else {
+      source += char.replace(/[-[\]{}()*+?.,\\^$|#\s]/g, "\\$&");
+    }
+  }
+  // wildcards never match dotfiles unless asked to, an explicit leading dot always does
+  const guard = !dot && segment[0] !== "." ? "(?!\\.)" : "";
+  return new RegExp(`^${guard}${source}$`, caseSensitive ? "" : "i");
+}
+
+/**
+ * match path elements against pattern elements, `**` matches zero or more elements
+ * @param pattern the pattern elements
+ * @param elements the path elements to be tested
+ * @param options the matching options
+ */
+export function _matchSegments(
+  pattern: string[],
+  elements: string[],
+  options: GlobMatchOptions = {},
+): boolean {
+  const regExps = pattern.map((s) =>
+    s === "**" ? null : _segmentToRegExp(s, options)
+  );
+  const memo = new Map<string, boolean>();
+  const match = (pi: number, ei: number): boolean => {
+    const key = `${pi}:${ei}`;
+    const cached = memo.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+    let result: boolean;
+    if (pi === pattern.length) {
+      result = ei === elements.length;
+    } else if (regExps[pi] === null) {
+      result = match(pi + 1, ei) ||
+        (ei < elements.length &&
+          (options.dot || elements[ei][0] !== ".") &&
+          match(pi, ei + 1));
+    } else {
+      result = ei < elements.length && regExps[pi]!.test(elements[ei]) &&
+        match(pi + 1, ei + 1);
+    }
+    memo.set(key, result);
+    return result;
+  };
+  return match(0, 0);
+}
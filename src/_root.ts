@@ -0,0 +1,182 @@
+// Copyright 2020 Matheus Xavier all rights reserved. MIT licensed
+
+/**
+ * the kind of root a path is anchored at
+ * * `relative` no root at all e.g. `foo/bar`
+ * * `root` a bare leading separator e.g. `/foo` or `\foo`
+ * * `drive` a windows drive letter e.g. `C:\foo` or the drive relative `C:foo`
+ * * `unc` a windows network share e.g. `\\server\share\foo`
+ * * `device` a windows device namespace path e.g. `\\.\COM1` or `\\?\Volume{...}\`
+ */
+export type RootKind = "relative" | "root" | "drive" | "unc" | "device";
+
+/**
+ * describes the root of a path, only the fields relevant to `kind` are set
+ */
+export interface PathRoot {
+  kind: RootKind;
+  /** the drive letter followed by a colon e.g. `C:` */
+  drive?: string;
+  /** the server name of an UNC path */
+  server?: string;
+  /** the share name of an UNC path */
+  share?: string;
+  /** the device name of a device namespace path e.g. `COM1` */
+  device?: string;
+  /** whether the path used the verbatim `\\?\` prefix, verbatim paths only accept `\` as separator */
+  verbatim: boolean;
+  /** whether the root fully anchors the path, `C:foo` and `\foo` on windows are not absolute */
+  absolute: boolean;
+}
+
+const VERBATIM_PREFIX = "\\\\?\\";
+const driveRegExp = /^[a-zA-Z]:/;
+
+/**
+ * checks if the given separators describe windows style paths
+ * @param separators a list of valid separators
+ */
+export function _isWindowsSeparators(separators: string[]): boolean {
+  return separators.indexOf("\\") !== -1;
+}
+
+/**
+ * reads the element starting at `start` up to the next separator
+ * @returns the element and the index of the separator that ended it
+ */
+function readElement(
+  path: string,
+  start: number,
+  separators: string[],
+): [string, number] {
+  let end = start;
+  while (end < path.length && separators.indexOf(path[end]) === -1) {
+    end++;
+  }
+  return [path.substring(start, end), end];
+}
+
+/**
+ * splits the root off a path string
+ * @param separators a list of valid separators for the path
+ * @param path the path string to be parsed
+ * @returns the parsed root and the remainder of the path after it
+ */
+export function _parseRoot(
+  separators: string[],
+  path: string,
+): { root: PathRoot; rest: string } {
+  const isSep = (c: string | undefined) =>
+    c !== undefined && separators.indexOf(c) !== -1;
+
+  if (!_isWindowsSeparators(separators)) {
+    if (isSep(path[0])) {
+      return {
+        root: { kind: "root", verbatim: false, absolute: true },
+        rest: path,
+      };
+    }
+    return {
+      root: { kind: "relative", verbatim: false, absolute: false },
+      rest: path,
+    };
+  }
+
+  if (path.startsWith(VERBATIM_PREFIX)) {
+    const inner = path.substring(VERBATIM_PREFIX.length);
+    if (driveRegExp.test(inner)) {
+      return {
+        root: {
+          kind: "drive",
+          drive: inner.substring(0, 2),
+          verbatim: true,
+          absolute: inner[2] === "\\",
+        },
+        rest: inner.substring(2),
+      };
+    }
+    if (inner.substring(0, 4).toUpperCase() === "UNC\\") {
+      const [server, serverEnd] = readElement(inner, 4, ["\\"]);
+      const [share, shareEnd] = readElement(inner, serverEnd + 1, ["\\"]);
+      return {
+        root: { kind: "unc", server, share, verbatim: true, absolute: true },
+        rest: inner.substring(shareEnd),
+      };
+    }
+    const [device, deviceEnd] = readElement(inner, 0, ["\\"]);
+    return {
+      root: { kind: "device", device, verbatim: true, absolute: true },
+      rest: inner.substring(deviceEnd),
+    };
+  }
+
+  if (isSep(path[0]) && isSep(path[1])) {
+    if (path[2] === "." && isSep(path[3])) {
+      const [device, deviceEnd] = readElement(path, 4, separators);
+      return {
+        root: { kind: "device", device, verbatim: false, absolute: true },
+        rest: path.substring(deviceEnd),
+      };
+    }
+    if (path[2] !== undefined && !isSep(path[2])) {
+      const [server, serverEnd] = readElement(path, 2, separators);
+      const [share, shareEnd] = readElement(path, serverEnd + 1, separators);
+      return {
+        root: { kind: "unc", server, share, verbatim: false, absolute: true },
+        rest: path.substring(shareEnd),
+      };
+    }
+  }
+
+  if (driveRegExp.test(path)) {
+    return {
+      root: {
+        kind: "drive",
+        drive: path.substring(0, 2),
+        verbatim: false,
+        absolute: isSep(path[2]),
+      },
+      rest: path.substring(2),
+    };
+  }
+
+  if (isSep(path[0])) {
+    return {
+      root: { kind: "root", verbatim: false, absolute: false },
+      rest: path,
+    };
+  }
+
+  return {
+    root: { kind: "relative", verbatim: false, absolute: false },
+    rest: path,
+  };
+}
+
+/**
+ * render a root as a string, UNC and device roots are rendered without a trailing separator
+ * @param root the root to be rendered
+ * @param separator the separator to use, verbatim roots always use `\`
+ */
+export function _renderRoot(root: PathRoot, separator: string): string {
+  const sep = root.verbatim ? "\\" : separator;
+  switch (root.kind) {
+    case "relative":
+      return "";
+    case "root":
+      return sep;
+    case "drive":
+      return (root.verbatim ? VERBATIM_PREFIX : "") + root.drive +
+        (root.absolute ? sep : "");
+    case "unc":
+      if (root.verbatim) {
+        return `${VERBATIM_PREFIX}UNC\\${root.server}\\${root.share}`;
+      }
+      return sep + sep + root.server + (root.share ? sep + root.share : "");
+    case "device":
+      if (root.verbatim) {
+        return VERBATIM_PREFIX + root.device;
+      }
+      return sep + sep + "." + sep + root.device;
+  }
+}
@@ -1,5 +1,12 @@
 // Copyright 2020 Matheus Xavier all rights reserved. MIT licensed
 
+/** unix style separators constant */
+export const UNIX_SEPS = ["/"];
+/** @deprecated will be removed on 3.0.0 in favor of UNIX_SEPS*/
+export const LINUX_SEPS = UNIX_SEPS;
+/** windows style separators constant */
+export const WINDOWS_SEPS = ["\\", "/"];
+
 export function _determineSeparators(): string[] {
   switch (Deno.build.os) {
     case "linux":
@@ -0,0 +1,51 @@
+// Copyright 2020 Matheus Xavier all rights reserved. MIT licensed
+
+/**
+ * the shell a path is quoted for
+ * * `posix` sh, bash, zsh and friends, single quotes are used
+ * * `cmd` the windows command prompt, double quotes are used and `%` is escaped with `^`
+ * * `powershell` single quotes are used, embedded quotes are doubled
+ */
+export type ShellKind = "posix" | "cmd" | "powershell";
+
+/**
+ * options for quoting a path for a shell
+ */
+export interface ShellOptions {
+  /** the shell to quote for, defaults to `cmd` for windows separators and `posix` otherwise */
+  shell?: ShellKind;
+}
+
+/** strings made only of these characters are passed to the shell as is */
+const SAFE: Record<ShellKind, RegExp> = {
+  posix: /^[\w@%+=:,./-]+$/,
+  cmd: /^[\w@+:,./\\-]+$/,
+  powershell: /^[\w:./\\-]+$/,
+};
+
+/**
+ * quote a string so the shell passes it to a command as a single argument unchanged
+ * @param s the string to be quoted
+ * @param shell the shell to quote for
+ */
+export function _quoteShell(s: string, shell: ShellKind): string {
+  // a leading `-` is harmless to the shell but powershell reads it as a parameter
+  if (SAFE[shell].test(s) && !(shell === "powershell" && s[0] === "-")) {
+    return s;
+  }
+  switch (shell) {
+    case "posix":
+      return `'${s.replace(/'/g, `'\\''`)}'`;
+    case "cmd":
+      // backslashes in front of a quote escape it when the program parses its arguments,
+      // so they are doubled wherever a quote follows them, including the closing one
+      // `%` expands even inside of quotes so it is escaped outside of them
+      return `"${
+        s.replace(/\\+(?=["%]|$)/g, "$&$&").replace(/"/g, '""')
+          .replace(/%/g, '"^%"')
+      }"`;
+    case "powershell":
+      // powershell also treats the typographic quotes as single quotes
+      return `'${s.replace(/['‘’‚‛]/g, "$&$&")}'`;
+  }
+}
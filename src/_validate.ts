@@ -0,0 +1,221 @@
+// Copyright 2020 Matheus Xavier all rights reserved. MIT licensed
+
+/**
+ * which platform rules a path is validated against
+ * * `posix` only `/` and NUL are forbidden, lengths are counted in UTF-8 bytes
+ * * `windows` reserved device names, forbidden characters and trailing dots or spaces are rejected
+ * * `portable` the rules of both, a valid portable path can be created anywhere
+ */
+export type PathFlavor = "posix" | "windows" | "portable";
+
+/**
+ * the kind of problem found by `validate`
+ * * `reserved-name` a windows device name such as `CON` or `aux.txt`
+ * * `forbidden-char` a character the flavor does not allow in a name such as `:` on windows
+ * * `control-char` a character below `0x20`, NUL is forbidden everywhere
+ * * `trailing-char` a name ending in a space or a dot which windows silently strips
+ * * `element-too-long` a single name over 255 characters or bytes
+ * * `path-too-long` the whole path is over the flavor's limit
+ */
+export type PathProblemKind =
+  | "reserved-name"
+  | "forbidden-char"
+  | "control-char"
+  | "trailing-char"
+  | "element-too-long"
+  | "path-too-long";
+
+/**
+ * a single problem found by `validate`
+ */
+export interface PathProblem {
+  kind: PathProblemKind;
+  /** the index of the offending element, not set for `path-too-long` */
+  index?: number;
+  /** the offending element, not set for `path-too-long` */
+  element?: string;
+  /** a human readable description of the problem */
+  message: string;
+}
+
+/**
+ * options for validating a path
+ */
+export interface ValidateOptions {
+  /** the rules to validate against, defaults to `portable` */
+  flavor?: PathFlavor;
+}
+
+/**
+ * options for sanitizing a path
+ */
+export interface SanitizeOptions extends ValidateOptions {
+  /** replaces forbidden and control characters, defaults to `_` */
+  replacement?: string;
+}
+
+const RESERVED_NAMES = /^(CON|PRN|AUX|NUL|COM[1-9¹²³]|LPT[1-9¹²³])$/i;
+const WINDOWS_FORBIDDEN = /[<>:"/\\|?*]/;
+const POSIX_FORBIDDEN = /\//;
+const MAX_ELEMENT = 255;
+const MAX_WINDOWS_PATH = 259;
+const MAX_POSIX_PATH = 4095;
+
+const encoder = new TextEncoder();
+
+/**
+ * the length of a string as counted by the flavor, windows counts UTF-16 code units
+ * while POSIX counts bytes, portable takes the larger of both
+ */
+function measure(s: string, flavor: PathFlavor): number {
+  switch (flavor) {
+    case "windows":
+      return s.length;
+    case "posix":
+      return encoder.encode(s).length;
+    case "portable":
+      return Math.max(s.length, encoder.encode(s).length);
+  }
+}
+
+/**
+ * whether a character code is a control character the flavor forbids, NUL is forbidden
+ * everywhere while windows also rejects everything else below `0x20`
+ */
+function isControl(code: number, windows: boolean): boolean {
+  return code === 0 || (windows && code < 0x20);
+}
+
+/**
+ * replace the control characters the flavor forbids
+ */
+function replaceControl(
+  s: string,
+  windows: boolean,
+  replacement: string,
+): string {
+  let result = "";
+  for (let i = 0; i < s.length; i++) {
+    result += isControl(s.charCodeAt(i), windows) ? replacement : s[i];
+  }
+  return result;
+}
+
+/**
+ * the part of a name windows compares against reserved device names, `aux .txt` counts as `AUX`
+ */
+function deviceStem(element: string): string {
+  const dot = element.indexOf(".");
+  return (dot === -1 ? element : element.substring(0, dot)).trimEnd();
+}
+
+/**
+ * validate a single path element, `.`, `..` and empty elements are always valid
+ * @param element the element to be validated
+ * @param index the index of the element within its path
+ * @param flavor the rules to validate against
+ */
+export function _validateElement(
+  element: string,
+  index: number,
+  flavor: PathFlavor,
+): PathProblem[] {
+  const problems = new Array<PathProblem>();
+  if (element === "" || element === "." || element === "..") {
+    return problems;
+  }
+  const windows = flavor !== "posix";
+  const problem = (kind: PathProblemKind, message: string) =>
+    problems.push({ kind, index, element, message });
+  if (windows && RESERVED_NAMES.test(deviceStem(element))) {
+    problem("reserved-name", `"${element}" is a reserved device name`);
+  }
+  const forbidden = windows ? WINDOWS_FORBIDDEN : POSIX_FORBIDDEN;
+  const char = element.match(forbidden);
+  if (char) {
+    problem("forbidden-char", `"${element}" contains "${char[0]}"`);
+  }
+  if (replaceControl(element, windows, "") !== element) {
+    problem("control-char", `"${element}" contains a control character`);
+  }
+  if (windows && /[ .]$/.test(element)) {
+    problem("trailing-char", `"${element}" ends with a space or a dot`);
+  }
+  if (measure(element, flavor) > MAX_ELEMENT) {
+    problem(
+      "element-too-long",
+      `"${element}" is longer than ${MAX_ELEMENT} characters`,
+    );
+  }
+  return problems;
+}
+
+/**
+ * validate the length of a whole rendered path
+ * @param path the rendered path
+ * @param flavor the rules to validate against
+ * @param verbatim whether the path uses the windows `\\?\` prefix which lifts the limit
+ */
+export function _validateLength(
+  path: string,
+  flavor: PathFlavor,
+  verbatim: boolean,
+): PathProblem[] {
+  const max = flavor === "posix" || verbatim
+    ? MAX_POSIX_PATH
+    : MAX_WINDOWS_PATH;
+  if (measure(path, flavor) > max) {
+    return [{
+      kind: "path-too-long",
+      message: `the path is longer than ${max} characters`,
+    }];
+  }
+  return [];
+}
+
+/**
+ * replace everything `_validateElement` would complain about, the result is deterministic
+ * so sanitizing the same element twice gives the same name
+ * @param element the element to be sanitized
+ * @param flavor the rules to sanitize for
+ * @param replacement replaces forbidden and control characters
+ */
+export function _sanitizeElement(
+  element: string,
+  flavor: PathFlavor,
+  replacement: string,
+): string {
+  if (element === "" || element === "." || element === "..") {
+    return element;
+  }
+  const windows = flavor !== "posix";
+  const forbidden = windows ? WINDOWS_FORBIDDEN : POSIX_FORBIDDEN;
+  let result = replaceControl(
+    element.replace(new RegExp(forbidden.source, "g"), replacement),
+    windows,
+    replacement,
+  );
+  if (windows) {
+    result = result.replace(/[ .]+$/, "");
+    if (!result) {
+      return replacement;
+    }
+    const stem = deviceStem(result);
+    if (RESERVED_NAMES.test(stem)) {
+      result = stem + replacement + result.substring(stem.length);
+    }
+  }
+  if (measure(result, flavor) > MAX_ELEMENT) {
+    // keep a short extension so the type of the file is not lost
+    const dot = result.lastIndexOf(".");
+    const ext = dot > 0 && result.length - dot <= 16
+      ? result.substring(dot)
+      : "";
+    let stem = result.substring(0, result.length - ext.length);
+    while (measure(stem + ext, flavor) > MAX_ELEMENT) {
+      stem = Array.from(stem).slice(0, -1).join("");
+    }
+    result = windows ? stem.replace(/[ .]+$/, "") + ext : stem + ext;
+  }
+  return result;
+}
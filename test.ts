@@ -1,7 +1,21 @@
-import { Path } from "./mod.ts";
 import {
+  MemoryFileSystem,
+  Path,
+  PathMap,
+  PathSet,
+  PathTraversalError,
+  PurePath,
+  UndefinedVariableError,
+  UNIX_SEPS,
+  WINDOWS_SEPS,
+} from "./mod.ts";
+import type { WatchEvent } from "./mod.ts";
+import {
+  assert,
   assertEquals,
   assertArrayContains,
+  assertThrows,
+  assertThrowsAsync,
 } from "https://deno.land/std@0.69.0/testing/asserts.ts";
 
 Deno.test({
@@ -14,7 +28,7 @@ Deno.test({
       path = new Path("/etc/test/.dotfolder/test.cfg");
     }
     assertArrayContains(
-      path.elements,
+      [...path.elements],
       ["etc", "test", ".dotfolder", "test.cfg"],
       "Path does not match the expected result"
     );
@@ -40,3 +54,1374 @@ Deno.test({
     );
   },
 });
+
+Deno.test({
+  name: "windows roots round-trip",
+  fn: () => {
+    const paths = [
+      "C:\\Users\\x",
+      "C:\\",
+      "C:relative\\file.txt",
+      "\\\\server\\share\\dir\\file.txt",
+      "\\\\server\\share",
+      "\\\\?\\C:\\very\\long",
+      "\\\\?\\UNC\\server\\share\\dir",
+      "\\\\.\\COM1",
+      "\\rooted\\on\\current\\drive",
+    ];
+    for (const p of paths) {
+      assertEquals(new Path(p, WINDOWS_SEPS).toString(), p);
+    }
+  },
+});
+
+Deno.test({
+  name: "windows root model",
+  fn: () => {
+    const drive = new Path("C:\\Users\\x", WINDOWS_SEPS);
+    assertEquals(drive.elements, ["Users", "x"]);
+    assertEquals(drive.drive, "C:");
+    assertEquals(drive.isAbsolute, true);
+    assertEquals(new Path("C:Users", WINDOWS_SEPS).isAbsolute, false);
+
+    const unc = new Path("\\\\server\\share\\dir", WINDOWS_SEPS);
+    assertEquals(unc.root.kind, "unc");
+    assertEquals(unc.root.server, "server");
+    assertEquals(unc.root.share, "share");
+    assertEquals(unc.drive, "\\\\server\\share");
+    assertEquals(unc.elements, ["dir"]);
+
+    const verbatim = new Path("\\\\?\\C:\\a/b", WINDOWS_SEPS);
+    assertEquals(verbatim.root.verbatim, true);
+    assertEquals(verbatim.elements, ["a/b"]);
+  },
+});
+
+Deno.test({
+  name: "lexical normalization",
+  fn: () => {
+    assertEquals(
+      new Path("/a/./b/../c", UNIX_SEPS).normalize().toString(),
+      "/a/c",
+    );
+    assertEquals(new Path("/../a", UNIX_SEPS).normalize().toString(), "/a");
+    assertEquals(
+      new Path("../a/../../b", UNIX_SEPS).normalize().toString(),
+      "../../b",
+    );
+    assertEquals(new Path("a/..", UNIX_SEPS).normalize().toString(), ".");
+    assertEquals(
+      new Path("C:\\..\\Users\\.\\x", WINDOWS_SEPS).normalize().toString(),
+      "C:\\Users\\x",
+    );
+  },
+});
+
+Deno.test({
+  name: "path resolution",
+  fn: () => {
+    assertEquals(
+      new Path("b/../c", UNIX_SEPS).resolve("/base/dir").toString(),
+      "/base/dir/c",
+    );
+    assertEquals(
+      new Path("/abs/./x", UNIX_SEPS).resolve("/base").toString(),
+      "/abs/x",
+    );
+    assertEquals(
+      new Path("\\x", WINDOWS_SEPS).resolve("D:\\base").toString(),
+      "D:\\x",
+    );
+    assertEquals(
+      new Path("c:y", WINDOWS_SEPS).resolve("C:\\base").toString(),
+      "c:\\base\\y",
+    );
+
+    // the working directory is parsed with the path's separators, not the host's
+    const fs = new MemoryFileSystem({
+      separators: WINDOWS_SEPS,
+      cwd: "C:\\work\\dir",
+    });
+    const relative = new Path("a\\b", WINDOWS_SEPS).withFileSystem(fs);
+    assertEquals(relative.resolve().toString(), "C:\\work\\dir\\a\\b");
+    assertEquals(relative.resolve("..\\up").toString(), "C:\\work\\up\\a\\b");
+  },
+});
+
+Deno.test({
+  name: "relative path computation",
+  fn: () => {
+    const x = new Path("/a/b/a/c", UNIX_SEPS);
+    assertEquals(x.relativeTo(new Path("/a", UNIX_SEPS)).elements, [
+      "b",
+      "a",
+      "c",
+    ]);
+    assertEquals(
+      new Path("/a/c", UNIX_SEPS).relativeTo("/a/b/d").toString(),
+      "../../c",
+    );
+    assertEquals(x.relativeTo(x).toString(), ".");
+    assertEquals(
+      new Path("C:\\Users\\X\\doc", WINDOWS_SEPS).relativeTo("c:\\users\\x")
+        .toString(),
+      "doc",
+    );
+    assertThrows(() => x.relativeTo(new Path("a", UNIX_SEPS)));
+  },
+});
+
+Deno.test({
+  name: "ancestry checks",
+  fn: () => {
+    const root = new Path("/a/b", UNIX_SEPS);
+    const child = new Path("/a/b/./c", UNIX_SEPS);
+    assert(root.isAncestorOf(child));
+    assert(child.isDescendantOf(root));
+    assert(!root.isAncestorOf(root));
+    assert(root.startsWith("/a/b"));
+    assert(!new Path("/a/bc", UNIX_SEPS).startsWith(root));
+    assertEquals(
+      Path.commonAncestor(
+        child,
+        new Path("/a/b/d/e", UNIX_SEPS),
+        new Path("/a/x", UNIX_SEPS),
+      )?.toString(),
+      "/a",
+    );
+    assertEquals(
+      Path.commonAncestor(root, new Path("a", UNIX_SEPS)),
+      null,
+    );
+  },
+});
+
+Deno.test({
+  name: "mkDirSync with repeated elements",
+  fn: () => {
+    const tmp = new Path(Deno.makeTempDirSync());
+    const target = new Path(tmp.toString()).push("a/b/a/c");
+    target.mkDirSync(true);
+    assert(target.isDir);
+    tmp.rmSync(true);
+  },
+});
+
+Deno.test({
+  name: "pure paths are immutable",
+  fn: () => {
+    const base = new PurePath("/etc", UNIX_SEPS);
+    const joined = base.join("nginx", "sites/default");
+    assertEquals(base.toString(), "/etc");
+    assertEquals(joined.toString(), "/etc/nginx/sites/default");
+    assertEquals(joined.parent.toString(), "/etc/nginx/sites");
+    assertEquals(joined.withName("other").toString(), "/etc/nginx/sites/other");
+    assertEquals(joined.name, "default");
+
+    const path = new Path("/etc", UNIX_SEPS);
+    const snapshot = path.toPure();
+    path.push("hosts");
+    assertEquals(snapshot.toString(), "/etc");
+    assertEquals(path.toString(), "/etc/hosts");
+    // breaking: the elements array used to be the path's own, it is a readonly frozen copy now
+    assertThrows(() => (path.elements as string[]).push("ignored"), TypeError);
+    assertThrows(() => (snapshot.elements as string[]).pop(), TypeError);
+    assertEquals(path.toString(), "/etc/hosts");
+  },
+});
+
+Deno.test({
+  name: "glob pattern matching",
+  fn: () => {
+    const path = new Path("/home/me/src/lib/mod.ts", UNIX_SEPS);
+    assert(path.matches("src/**/*.ts"));
+    assert(path.matches("*.{js,ts}"));
+    assert(path.matches("/home/*/src/**"));
+    assert(path.matches("/home/me/src/l?b/[a-m]od.ts"));
+    assert(!path.matches("/src/**/*.ts"));
+    assert(!path.matches("*.[!t]s"));
+    assert(!new Path("/home/.config/x.ts", UNIX_SEPS).matches("/home/*/x.ts"));
+    assert(
+      new Path("C:\\Src\\Mod.TS", WINDOWS_SEPS).matches("c:/src/*.ts"),
+    );
+  },
+});
+
+Deno.test({
+  name: "glob expansion over the filesystem",
+  fn: async () => {
+    const tmp = new Path(await Deno.makeTempDir());
+    for (const file of ["a.ts", "b.js", "sub/c.ts", "sub/deep/d.ts", ".e.ts"]) {
+      const p = new Path(tmp.toString()).push(file);
+      await new Path(p.toString()).del().mkDir(true);
+      await Deno.writeTextFile(p.toString(), "");
+    }
+    const found = new Array<string>();
+    for await (const p of Path.glob("**/*.ts", { cwd: tmp })) {
+      found.push(p.relativeTo(tmp).toString("", "", "/"));
+    }
+    assertEquals(found.sort(), ["a.ts", "sub/c.ts", "sub/deep/d.ts"]);
+    const sync = [...Path.globSync("{*.js,.*.ts}", { cwd: tmp, dot: true })]
+      .map((p) => p.relativeTo(tmp).toString());
+    assertEquals(sync.sort(), [".e.ts", "b.js"]);
+
+    // a trailing `**` matches files as well as directories
+    const tree = new Array<string>();
+    for await (const p of Path.glob("sub/**", { cwd: tmp })) {
+      tree.push(p.relativeTo(tmp).toString("", "", "/"));
+    }
+    assertEquals(tree.sort(), ["sub", "sub/c.ts", "sub/deep", "sub/deep/d.ts"]);
+    assertEquals(
+      [...Path.globSync("sub/**", { cwd: tmp })].length,
+      tree.length,
+    );
+
+    // every brace alternative descends into symlinks on its own
+    const shared = new Path(tmp.toString()).push("shared");
+    shared.mkDirSync();
+    Deno.writeTextFileSync(
+      new Path(shared.toString()).push("s.ts").toString(),
+      "",
+    );
+    for (const dir of ["x", "y"]) {
+      new Path(tmp.toString()).push(dir).mkDirSync();
+      Deno.symlinkSync(
+        shared.toString(),
+        new Path(tmp.toString()).push(`${dir}/link`).toString(),
+      );
+    }
+    const linked = [
+      ...Path.globSync("{x,y}/**/*.ts", { cwd: tmp, followSymlinks: true }),
+    ].map((p) => p.relativeTo(tmp).toString("", "", "/"));
+    assertEquals(linked.sort(), ["x/link/s.ts", "y/link/s.ts"]);
+    const linkedAsync = new Array<string>();
+    for await (
+      const p of Path.glob("{x,y}/**/*.ts", { cwd: tmp, followSymlinks: true })
+    ) {
+      linkedAsync.push(p.relativeTo(tmp).toString("", "", "/"));
+    }
+    assertEquals(linkedAsync.sort(), linked.sort());
+    await tmp.rm(true);
+  },
+});
+
+Deno.test({
+  name: "directory walking",
+  fn: async () => {
+    const tmp = new Path(await Deno.makeTempDir());
+    new Path(tmp.toString()).push("a/b/c").mkDirSync(true);
+    Deno.writeTextFileSync(
+      new Path(tmp.toString()).push("a/x.ts").toString(),
+      "",
+    );
+    Deno.writeTextFileSync(
+      new Path(tmp.toString()).push("a/b/y.js").toString(),
+      "",
+    );
+    Deno.symlinkSync(
+      tmp.toString(),
+      new Path(tmp.toString()).push("a/b/c/loop").toString(),
+    );
+    const rel = (p: Path) => p.relativeTo(tmp).toString("", "", "/");
+
+    assertEquals(tmp.childrenSync().map((p) => p.dirEntry?.name), ["a"]);
+    const all = new Array<string>();
+    for await (const p of tmp.walk({ followSymlinks: true })) {
+      all.push(rel(p));
+    }
+    assertEquals(all.sort(), [
+      "a",
+      "a/b",
+      "a/b/c",
+      "a/b/c/loop",
+      "a/b/y.js",
+      "a/x.ts",
+    ]);
+    const files = [
+      ...tmp.walkSync({
+        includeDirs: false,
+        includeSymlinks: false,
+        exts: [".ts"],
+      }),
+    ];
+    assertEquals(files.map(rel), ["a/x.ts"]);
+    const shallow = [
+      ...tmp.walkSync({ maxDepth: 2, skip: (p) => p.ext === ".ts" }),
+    ];
+    assertEquals(shallow.map(rel).sort(), ["a", "a/b"]);
+    tmp.rmSync(true);
+  },
+});
+
+Deno.test({
+  name: "read and write helpers",
+  fn: async () => {
+    const tmp = new Path(await Deno.makeTempDir());
+    const json = new Path(tmp.toString()).push("nested/dir/data.json");
+    await json.writeJson({ a: 1 }, { atomic: true, parents: true });
+    assertEquals(await json.readJson<{ a: number }>(), { a: 1 });
+    assertEquals(
+      Path.fromPure(json.toPure().parent).childrenSync().map((p) =>
+        p.dirEntry?.name
+      ),
+      ["data.json"],
+    );
+    const log = new Path(tmp.toString()).push("log.txt");
+    log.writeTextSync("a");
+    log.appendTextSync("b");
+    await log.appendText("c");
+    assertEquals(log.readTextSync(), "abc");
+    assertEquals(await log.readBytes(), new TextEncoder().encode("abc"));
+
+    await Promise.all(
+      Array.from({ length: 50 }, (_, i) => json.writeJson(i, { atomic: true })),
+    );
+    assertEquals(Path.fromPure(json.toPure().parent).childrenSync().length, 1);
+    if (Deno.build.os !== "windows") {
+      Deno.chmodSync(json.toString(), 0o600);
+      json.writeJsonSync({ b: 2 }, { atomic: true });
+      assertEquals(Deno.statSync(json.toString()).mode! & 0o777, 0o600);
+      await json.writeJson({ c: 3 }, { atomic: true, mode: 0o640 });
+      assertEquals(Deno.statSync(json.toString()).mode! & 0o777, 0o640);
+    }
+    tmp.rmSync(true);
+  },
+});
+
+Deno.test({
+  name: "copy, move and rename",
+  fn: async () => {
+    const tmp = new Path(await Deno.makeTempDir());
+    const src = new Path(tmp.toString()).push("src");
+    new Path(src.toString()).push("a/b.txt").writeTextSync("b", {
+      parents: true,
+    });
+    new Path(src.toString()).push("c.txt").writeTextSync("c");
+    Deno.utimeSync(new Path(src.toString()).push("c.txt").toString(), 0, 0);
+
+    const copy = (await src.copyTo(new Path(tmp.toString()).push("copy"), {
+      preserve: true,
+    }))!;
+    assertEquals(new Path(copy.toString()).push("a/b.txt").readTextSync(), "b");
+    assertEquals(
+      Deno.statSync(new Path(copy.toString()).push("c.txt").toString()).mtime
+        ?.getTime(),
+      0,
+    );
+    await assertThrowsAsync(
+      () => src.copyTo(copy),
+      Deno.errors.AlreadyExists,
+    );
+    await assertThrowsAsync(
+      () => src.copyTo(new Path(src.toString()).push("inner")),
+    );
+
+    new Path(src.toString()).push("c.txt").writeTextSync("newer");
+    src.copyToSync(copy, { overwrite: "replaceIfNewer" });
+    assertEquals(
+      new Path(copy.toString()).push("c.txt").readTextSync(),
+      "newer",
+    );
+
+    const moved = src.moveToSync(new Path(tmp.toString()).push("moved"))!;
+    assert(!src.exists);
+    const renamed = (await moved.rename("renamed"))!;
+    assertEquals(
+      renamed.toString(),
+      new Path(tmp.toString()).push("renamed").toString(),
+    );
+    assert(new Path(renamed.toString()).push("a/b.txt").isFile);
+
+    const inner = new Path(renamed.toString()).push("a");
+    await assertThrowsAsync(
+      () => inner.moveTo(renamed, { overwrite: "replace" }),
+      Error,
+      "ancestors",
+    );
+    assertThrows(
+      () => renamed.renameSync("renamed", { overwrite: "replace" }),
+      Error,
+      "itself",
+    );
+    assert(new Path(renamed.toString()).push("a/b.txt").isFile);
+
+    const replaced = (await renamed.moveTo(copy, { overwrite: "replace" }))!;
+    assert(!renamed.exists);
+    assert(new Path(replaced.toString()).push("a/b.txt").isFile);
+    assertEquals(
+      tmp.childrenSync().map((p) => p.name).sort(),
+      ["copy"],
+    );
+
+    // a destination kept by the overwrite policy is reported, the source stays in place
+    const kept = new Path(tmp.toString()).push("kept.txt");
+    kept.writeTextSync("kept");
+    const other = new Path(tmp.toString()).push("other.txt");
+    other.writeTextSync("other");
+    assertEquals(await other.moveTo(kept, { overwrite: "skip" }), null);
+    assertEquals(other.renameSync("kept.txt", { overwrite: "skip" }), null);
+    assertEquals(other.copyToSync(kept, { overwrite: "skip" }), null);
+    assertEquals(kept.readTextSync(), "kept");
+    assert(other.exists);
+    tmp.rmSync(true);
+
+    // replacing a symlink replaces the link instead of writing through it
+    const fs = new MemoryFileSystem();
+    const root = new Path("/links", UNIX_SEPS).withFileSystem(fs);
+    root.joinSafe("src.txt").writeTextSync("new", { parents: true });
+    root.joinSafe("tree/x.txt").writeTextSync("x", { parents: true });
+    root.joinSafe("outside.txt").writeTextSync("keep");
+    root.joinSafe("elsewhere").mkDirSync();
+    fs.symlinkSync("/links/outside.txt", "/links/file-link");
+    fs.symlinkSync("/links/elsewhere", "/links/dir-link");
+    await root.joinSafe("src.txt").copyTo(root.joinSafe("file-link"), {
+      overwrite: "replace",
+    });
+    root.joinSafe("tree").copyToSync(root.joinSafe("dir-link"), {
+      overwrite: "replace",
+    });
+    assertEquals(root.joinSafe("outside.txt").readTextSync(), "keep");
+    assertEquals(root.joinSafe("elsewhere").childrenSync(), []);
+    assert(!fs.lstatSync("/links/file-link").isSymlink);
+    assertEquals(root.joinSafe("file-link").readTextSync(), "new");
+    assertEquals(root.joinSafe("dir-link/x.txt").readTextSync(), "x");
+
+    // a failed cross device move removes what it copied and restores the destination
+    class TwoDevices extends MemoryFileSystem {
+      broken = "";
+      override renameSync(oldpath: string, newpath: string): void {
+        if (oldpath.startsWith("/a/") !== newpath.startsWith("/a/")) {
+          throw Object.assign(new Error("cross-device link"), {
+            code: "EXDEV",
+          });
+        }
+        super.renameSync(oldpath, newpath);
+      }
+      override copyFileSync(from: string, to: string): void {
+        if (from === this.broken) {
+          throw new Deno.errors.PermissionDenied(from);
+        }
+        super.copyFileSync(from, to);
+      }
+    }
+    const devices = new TwoDevices();
+    const source = new Path("/a/src", UNIX_SEPS).withFileSystem(devices);
+    source.joinSafe("1.txt").writeTextSync("1", { parents: true });
+    source.joinSafe("2.txt").writeTextSync("2");
+    const b = new Path("/b", UNIX_SEPS).withFileSystem(devices);
+    b.mkDirSync();
+    const target = b.joinSafe("dest");
+    devices.broken = "/a/src/2.txt";
+    await assertThrowsAsync(
+      () => source.moveTo(target),
+      Deno.errors.PermissionDenied,
+    );
+    assert(!target.exists);
+    target.joinSafe("old.txt").writeTextSync("old", { parents: true });
+    assertThrows(
+      () => source.moveToSync(target, { overwrite: "replace" }),
+      Deno.errors.PermissionDenied,
+    );
+    assertEquals(target.childrenSync().map((p) => p.name), ["old.txt"]);
+    assertEquals(b.childrenSync().map((p) => p.name), ["dest"]);
+    devices.broken = "";
+    await source.moveTo(target, { overwrite: "replace" });
+    assert(!source.exists);
+    assertEquals(
+      target.childrenSync().map((p) => p.name).sort(),
+      ["1.txt", "2.txt"],
+    );
+  },
+});
+
+Deno.test({
+  name: "stat and lstat aware checks",
+  fn: async () => {
+    const tmp = new Path(await Deno.makeTempDir());
+    const file = new Path(tmp.toString()).push("file.txt");
+    const link = new Path(tmp.toString()).push("link");
+    const time = new Date(1000);
+    await file.touch(time);
+    Deno.symlinkSync(file.toString(), link.toString());
+
+    const info = await link.stat();
+    assert(info.isFile);
+    assertEquals(info.size, 0);
+    assertEquals(info.mtime?.getTime(), 1000);
+    assert((await link.lstat()).isSymlink);
+    assert(link.isSymlink);
+    assert(await link.isSymlinkAsync());
+    assert(!(await file.isSymlinkAsync()));
+    assert(await link.isFileAsync());
+    assert(await tmp.isDirAsync());
+    assert(!(await new Path(tmp.toString()).push("missing").existsAsync()));
+
+    if (Deno.build.os !== "windows") {
+      file.chmodSync(0o600);
+      assertEquals(file.statSync().mode! & 0o777, 0o600);
+    }
+    tmp.rmSync(true);
+  },
+});
+
+Deno.test({
+  name: "symlink and hard link management",
+  fn: async () => {
+    const tmp = new Path(await Deno.makeTempDir());
+    const at = (p: string) => new Path(tmp.toString()).push(p);
+    at("release-1").mkDirSync();
+    at("release-2").mkDirSync();
+    const current = at("current");
+    await current.symlinkTo("release-1");
+    assertEquals(current.readLinkSync().toString(), "release-1");
+    current.symlinkToSync("release-2", { replace: true });
+    assertEquals((await current.readLink()).toString(), "release-2");
+
+    at("file.txt").writeTextSync("x");
+    at("hard.txt").linkToSync(at("file.txt"));
+    assertEquals(at("hard.txt").readTextSync(), "x");
+
+    at("a").symlinkToSync("b");
+    at("b").symlinkToSync("current");
+    const chain = await at("a").resolveLinks();
+    assertEquals(chain.hops.length, 3);
+    assertEquals(chain.target.toString(), at("release-2").toString());
+    assert(!chain.broken && !chain.cycle);
+
+    at("loop1").symlinkToSync("loop2");
+    at("loop2").symlinkToSync("loop1");
+    assert(at("loop1").resolveLinksSync().cycle);
+    at("dangling").symlinkToSync("missing");
+    assert(at("dangling").isBrokenLink);
+    assert(await at("dangling").isBrokenLinkAsync());
+    assert(!current.isBrokenLink);
+    tmp.rmSync(true);
+  },
+});
+
+Deno.test({
+  name: "temporary directories and files",
+  fn: async () => {
+    let kept: Path;
+    {
+      await using dir = await Path.createTempDir({ prefix: "pathredux" });
+      kept = dir;
+      assert(dir.isDir);
+      assert(dir.name.startsWith("pathredux."));
+      if (Deno.build.os !== "windows") {
+        assertEquals(dir.statSync().mode! & 0o777, 0o700);
+      }
+      using file = Path.createTempFileSync({ tmpDir: dir, suffix: "txt" });
+      assert(file.isFile);
+      assertEquals(file.ext, ".txt");
+    }
+    assert(!kept.exists);
+
+    const result = await Path.withTempDir(async (dir) => {
+      kept = dir;
+      await new Path(dir.toString()).push("a/b.txt").writeText("x", {
+        parents: true,
+      });
+      return 42;
+    });
+    assertEquals(result, 42);
+    assert(!kept.exists);
+  },
+});
+
+Deno.test({
+  name: "name, stem and extension manipulation",
+  fn: () => {
+    const archive = new Path("/backups/site.tar.gz", UNIX_SEPS);
+    assertEquals(archive.name, "site.tar.gz");
+    assertEquals(archive.ext, ".tar.gz");
+    assertEquals(archive.stem, "site");
+    assertEquals(archive.suffixes, [".tar", ".gz"]);
+    assertEquals(archive.withStem("blog").toString(), "/backups/blog.tar.gz");
+    assertEquals(archive.withExt(".zip").toString(), "/backups/site.zip");
+    assertEquals(new Path("types.d.ts", UNIX_SEPS).stem, "types");
+
+    const dotfile = new Path("/home/.bashrc", UNIX_SEPS);
+    assertEquals(dotfile.ext, null);
+    assertEquals(dotfile.stem, ".bashrc");
+    assertEquals(dotfile.suffixes, []);
+    assertEquals(
+      new Path("data.v1.yaml", UNIX_SEPS).withExt(".json").toString(),
+      "data.v1.json",
+    );
+    assertEquals(new Path("a.txt", UNIX_SEPS).withExt("").toString(), "a");
+    assertThrows(() => archive.withExt("zip"));
+    assertThrows(() => archive.withName("a/b"));
+  },
+});
+
+Deno.test({
+  name: "cross-flavor conversion",
+  fn: () => {
+    const win = new Path("C:\\src\\app", WINDOWS_SEPS);
+    assertEquals(win.toPosix().toString(), "C:/src/app");
+    assertEquals(win.toPosix({ mapping: "wsl" }).toString(), "/mnt/c/src/app");
+    assertEquals(win.toPosix({ mapping: "msys" }).toString(), "/c/src/app");
+    assertEquals(
+      win.toPosix({ mapping: "cygwin" }).toString(),
+      "/cygdrive/c/src/app",
+    );
+    assertEquals(
+      new Path("\\\\wsl$\\Ubuntu\\home\\me", WINDOWS_SEPS)
+        .toPosix({ mapping: "wsl" }).toString(),
+      "/home/me",
+    );
+    assertThrows(() => new Path("C:rel", WINDOWS_SEPS).toPosix());
+
+    const nix = new Path("/mnt/d/build/out", UNIX_SEPS);
+    assertEquals(
+      nix.toWindows({ mapping: "wsl" }).toString(),
+      "D:\\build\\out",
+    );
+    assertEquals(nix.toWindows().toString(), "\\mnt\\d\\build\\out");
+    assertEquals(
+      new Path("/c/x", UNIX_SEPS).toWindows({ mapping: "msys" }).toString(),
+      "C:\\x",
+    );
+    assertEquals(
+      new Path("/home/me", UNIX_SEPS)
+        .toWindows({ mapping: "wsl", distro: "Ubuntu" }).toString(),
+      "\\\\wsl$\\Ubuntu\\home\\me",
+    );
+    assertThrows(() =>
+      new Path("/home/me", UNIX_SEPS).toWindows({ mapping: "cygwin" })
+    );
+    assertEquals(
+      new Path("a/b", UNIX_SEPS).toWindows().toString(),
+      "a\\b",
+    );
+  },
+});
+
+Deno.test({
+  name: "file URL interop",
+  fn: () => {
+    const nix = new Path("/tmp/a b#1?.txt", UNIX_SEPS);
+    assertEquals(nix.toFileUrl().href, "file:///tmp/a%20b%231%3F.txt");
+    assertEquals(
+      Path.fromFileUrl(nix.toFileUrl(), UNIX_SEPS).toString(),
+      nix.toString(),
+    );
+    assertEquals(
+      Path.fromFileUrl("file:///caf%C3%A9/x", UNIX_SEPS).elements,
+      ["café", "x"],
+    );
+
+    const drive = new Path("C:\\My Docs\\ünï.txt", WINDOWS_SEPS);
+    assertEquals(
+      drive.toFileUrl().href,
+      "file:///C:/My%20Docs/%C3%BCn%C3%AF.txt",
+    );
+    assertEquals(
+      Path.fromFileUrl(drive.toFileUrl(), WINDOWS_SEPS).toString(),
+      drive.toString(),
+    );
+    const unc = new Path("\\\\server\\share\\dir\\f.txt", WINDOWS_SEPS);
+    assertEquals(unc.toFileUrl().href, "file://server/share/dir/f.txt");
+    assertEquals(
+      Path.fromFileUrl(unc.toFileUrl(), WINDOWS_SEPS).toString(),
+      unc.toString(),
+    );
+
+    assertThrows(() => Path.fromFileUrl("https://deno.land/x"), TypeError);
+    // separators escaped inside an element survive the round trip
+    const escaped = new PurePath("/data/a\\/b/c\\d\\\\/e", UNIX_SEPS);
+    assertEquals(escaped.toFileUrl().href, "file:///data/a%2Fb/c%5Cd%5C/e");
+    assertEquals(PurePath.fromFileUrl(escaped.toFileUrl(), UNIX_SEPS), escaped);
+    assertEquals(
+      Path.fromFileUrl("file:///a%2Fb", UNIX_SEPS).elements,
+      ["a/b"],
+    );
+    assertThrows(
+      () => Path.fromFileUrl("file:///C:/a%2Fb", WINDOWS_SEPS),
+      TypeError,
+    );
+    assertThrows(() => new Path("rel", UNIX_SEPS).toFileUrl(), TypeError);
+    assertEquals(
+      Path.fromImportMeta(import.meta, "test.ts").toString(),
+      Path.fromFileUrl(import.meta.url).toString(),
+    );
+  },
+});
+
+Deno.test({
+  name: "equality, ordering and collections",
+  fn: () => {
+    const win = new Path("C:\\Users\\Me\\", WINDOWS_SEPS);
+    assert(win.equals("c:/users/./me"));
+    assert(!win.equals("c:/users/me", { caseSensitive: true }));
+    assert(!new Path("/a/B", UNIX_SEPS).equals(new Path("/a/b", UNIX_SEPS)));
+    assertEquals(win.key(), new Path("c:/USERS/me", WINDOWS_SEPS).key());
+
+    const sorted = ["/a/file10", "/a/file2", "/b", "/a"]
+      .map((p) => new Path(p, UNIX_SEPS))
+      .sort((x, y) => x.compare(y, { natural: true }))
+      .map((p) => p.toString());
+    assertEquals(sorted, ["/a", "/a/file2", "/a/file10", "/b"]);
+    assertEquals(
+      [new Path("/b", UNIX_SEPS), new Path("/a", UNIX_SEPS)]
+        .sort(Path.compare).map((p) => p.toString()),
+      ["/a", "/b"],
+    );
+
+    const set = new PathSet([win]);
+    set.add(new Path("c:\\users\\me", WINDOWS_SEPS));
+    assertEquals(set.size, 1);
+    assert(set.has(new Path("C:/Users/ME", WINDOWS_SEPS)));
+    const map = new PathMap<number>();
+    map.set(new Path("/x/./y", UNIX_SEPS), 1);
+    map.set(new Path("/x/y/", UNIX_SEPS), 2);
+    assertEquals(map.size, 1);
+    assertEquals(map.get(new Path("/x/y", UNIX_SEPS)), 2);
+    assertEquals([...map.keys()][0].toString(), "/x/./y");
+  },
+});
+
+Deno.test({
+  name: "traversal-safe joining",
+  fn: async () => {
+    const root = new PurePath("/srv/files", UNIX_SEPS);
+    assertEquals(root.joinSafe("a/../b.txt").toString(), "/srv/files/b.txt");
+    assertThrows(() => root.joinSafe("../etc/passwd"), PathTraversalError);
+    assertThrows(() => root.joinSafe("/etc/passwd"), PathTraversalError);
+    assertThrows(
+      () => new PurePath("C:\\srv", WINDOWS_SEPS).joinSafe("D:\\x"),
+      PathTraversalError,
+    );
+    assertThrows(
+      () => new PurePath("a").joinSafe("../../b"),
+      PathTraversalError,
+    );
+    assertEquals(
+      PurePath.within("/srv/files", "/srv/files/x/./y").toString(),
+      "/srv/files/x/y",
+    );
+
+    const tmp = new Path(await Deno.makeTempDir());
+    const outside = new Path(await Deno.makeTempDir());
+    const jail = new Path(tmp.toString()).push("jail");
+    jail.mkDirSync();
+    new Path(jail.toString()).push("escape").symlinkToSync(outside);
+    new Path(jail.toString()).push("dangling").symlinkToSync(
+      new Path(outside.toString()).push("missing"),
+    );
+    const inside = await Path.within(jail, "sub/new.txt", { realpath: true });
+    assertEquals(inside.toString(), jail.toString() + "/sub/new.txt");
+    assertEquals((await Path.within(jail, "escape/x.txt")).name, "x.txt");
+    await assertThrowsAsync(
+      () => Path.within(jail, "escape/x.txt", { realpath: true }),
+      PathTraversalError,
+    );
+    assertThrows(
+      () => Path.withinSync(jail, "dangling", { realpath: true }),
+      PathTraversalError,
+    );
+    tmp.rmSync(true);
+    outside.rmSync(true);
+  },
+});
+
+Deno.test({
+  name: "portable name validation and sanitization",
+  fn: () => {
+    const kinds = (p: string, flavor?: "posix" | "windows" | "portable") =>
+      new PurePath(p, UNIX_SEPS).validate({ flavor }).map((x) => x.kind);
+    assertEquals(kinds("docs/readme.md"), []);
+    assertEquals(kinds("docs/aux.txt"), ["reserved-name"]);
+    assertEquals(kinds("foo:bar"), ["forbidden-char"]);
+    assertEquals(kinds("foo:bar", "posix"), []);
+    assertEquals(kinds("a\x01b/trail. "), ["control-char", "trailing-char"]);
+    // posix only forbids NUL, the other control characters are valid names there
+    assertEquals(kinds("a\x01b", "windows"), ["control-char"]);
+    assertEquals(kinds("a\x01b", "posix"), []);
+    assertEquals(kinds("a\0b", "posix"), ["control-char"]);
+    assertEquals(kinds("x".repeat(256)), ["element-too-long"]);
+    assertEquals(kinds("x/".repeat(130)), ["path-too-long"]);
+    assertEquals(kinds("ä".repeat(200), "posix"), ["element-too-long"]);
+    const problem = new Path("out/CON", UNIX_SEPS).validate()[0];
+    assertEquals(problem.index, 1);
+    assertEquals(problem.element, "CON");
+
+    const sanitize = (p: string) =>
+      new PurePath(p, UNIX_SEPS).sanitize().toString();
+    assertEquals(sanitize("out/CON.txt"), "out/CON_.txt");
+    assertEquals(sanitize("a:b?. /ok"), "a_b_/ok");
+    assertEquals(sanitize("..."), "_");
+    assertEquals(sanitize("a\x01b"), "a_b");
+    assertEquals(
+      new PurePath("a\x01b\0c", UNIX_SEPS).sanitize({ flavor: "posix" })
+        .toString(),
+      "a\x01b_c",
+    );
+    const long = sanitize("y".repeat(300) + ".json");
+    assertEquals(long.length, 255);
+    assert(long.endsWith("y.json"));
+    assertEquals(new PurePath(long, UNIX_SEPS).validate(), []);
+    assertEquals(
+      new Path("C:\\a|b", WINDOWS_SEPS).sanitize({ replacement: "-" })
+        .toString(),
+      "C:\\a-b",
+    );
+    assertThrows(() => new PurePath("a").sanitize({ replacement: ":" }));
+  },
+});
+
+Deno.test({
+  name: "escaped separators and shell quoting",
+  fn: async () => {
+    const escaped = new PurePath("/data/a\\/b/c\\d", UNIX_SEPS);
+    assertEquals(escaped.elements, ["data", "a/b", "c\\d"]);
+    assertEquals(escaped.toString(), "/data/a\\/b/c\\d");
+    assertEquals(new PurePath(escaped.toString(), UNIX_SEPS), escaped);
+    assertEquals(escaped.parent.name, "a/b");
+    for (const elements of [["x", "a\\", "b"], ["x", "a\\/b"], ["y\\\\", ""]]) {
+      const literal = new PurePath("/", UNIX_SEPS).withElements(elements);
+      const parsed = new PurePath(literal.toString(), UNIX_SEPS);
+      assertEquals(parsed.elements, elements);
+      assertEquals(parsed.name, literal.name);
+      assertEquals(parsed.parent.toString(), literal.parent.toString());
+    }
+    assertEquals(
+      new PurePath("/", UNIX_SEPS).withElements(["x", "a\\", "b"]).toString(),
+      "/x/a\\\\/b",
+    );
+    assertEquals(
+      new PurePath("C:\\a\\/b", WINDOWS_SEPS).elements,
+      ["a", "b"],
+    );
+
+    const odd = new Path("/tmp/it's $HOME `x`", UNIX_SEPS);
+    assertEquals(odd.toShellString(), `'/tmp/it'\\''s $HOME \`x\`'`);
+    assertEquals(
+      new Path("/usr/bin/env", UNIX_SEPS).toShellString(),
+      "/usr/bin/env",
+    );
+    const out = await new Deno.Command("sh", {
+      args: ["-c", `printf %s ${odd.toShellString()}`],
+    }).output();
+    assertEquals(new TextDecoder().decode(out.stdout), odd.toString());
+
+    const win = new PurePath("C:\\Program Files\\100%\\it's", WINDOWS_SEPS);
+    assertEquals(win.toShellString(), `"C:\\Program Files\\100"^%"\\it's"`);
+    assertEquals(
+      win.toShellString({ shell: "powershell" }),
+      `'C:\\Program Files\\100%\\it''s'`,
+    );
+    assertEquals(
+      new PurePath("C:\\tools\\a.exe", WINDOWS_SEPS).toShellString(),
+      "C:\\tools\\a.exe",
+    );
+    assertEquals(
+      new PurePath("C:\\Program Files\\", WINDOWS_SEPS).toShellString(),
+      `"C:\\Program Files\\\\"`,
+    );
+    assertEquals(
+      new PurePath('C:\\a b\\say\\"hi\\', WINDOWS_SEPS).toShellString(),
+      `"C:\\a b\\say\\\\""hi\\\\"`,
+    );
+  },
+});
+
+Deno.test({
+  name: "filesystem watching",
+  fn: async () => {
+    const tmp = new Path(await Deno.makeTempDir());
+    const watcher = tmp.watch({
+      debounceMs: 100,
+      filter: (e) => e.path.name !== "ignored.txt",
+    });
+    const file = new Path(tmp.toString()).push("config.json");
+    setTimeout(async () => {
+      await new Path(tmp.toString()).push("ignored.txt").writeText("x");
+      await file.writeText("{}");
+      await file.appendText(" ");
+    }, 50);
+    const events = new Array<WatchEvent>();
+    for await (const event of watcher) {
+      events.push(event);
+      break;
+    }
+    assertEquals(events.length, 1);
+    assertEquals(events[0].kind, "created");
+    assert(events[0].path.equals(file));
+
+    const instant = tmp.watch({ debounceMs: 0 });
+    setTimeout(() => file.rmSync(), 50);
+    for await (const event of instant) {
+      assertEquals(event.kind, "removed");
+      instant.close();
+    }
+
+    // a busy path does not hold back the events of another one
+    const log = new Path(tmp.toString()).push("app.log");
+    const busy = tmp.watch({ debounceMs: 100 });
+    const writer = setInterval(() => log.appendTextSync("line\n"), 20);
+    const started = Date.now();
+    setTimeout(() => file.writeTextSync("{}"), 60);
+    try {
+      for await (const event of busy) {
+        if (event.path.equals(file)) {
+          break;
+        }
+      }
+    } finally {
+      clearInterval(writer);
+    }
+    assert(Date.now() - started < 800);
+
+    // entries moved in are reported through the real filesystem
+    const outside = new Path(await Deno.makeTempDir()).push("moved.json");
+    outside.writeTextSync("{}");
+    const previous = Path.defaultFileSystem;
+    Path.defaultFileSystem = new MemoryFileSystem();
+    try {
+      const moves = tmp.watch({ debounceMs: 0 });
+      const inside = new Path(tmp.toString()).push("moved.json");
+      setTimeout(
+        () => Deno.renameSync(outside.toString(), inside.toString()),
+        50,
+      );
+      for await (const event of moves) {
+        if (event.path.equals(inside)) {
+          assertEquals(event.kind, "created");
+          break;
+        }
+      }
+    } finally {
+      Path.defaultFileSystem = previous;
+    }
+    Deno.removeSync(outside.toPure().parent.toString(), { recursive: true });
+    tmp.rmSync(true);
+  },
+});
+
+Deno.test({
+  name: "in-memory filesystem backend",
+  fn: async () => {
+    const fs = new MemoryFileSystem();
+    const root = new Path("/srv/app", UNIX_SEPS).withFileSystem(fs);
+    assert(!root.exists);
+    assert(root.mkDirSync(true));
+    assert(root.isDir);
+    const config = root.joinSafe("conf/app.json");
+    await config.writeJson({ debug: true }, { parents: true, atomic: true });
+    assertEquals(await config.readJson(), { debug: true });
+    assertEquals(config.statSync().mode! & 0o777, 0o644);
+    config.appendTextSync("// end");
+    assert(config.readTextSync().endsWith("// end"));
+
+    const current = root.joinSafe("current");
+    await current.symlinkTo("conf", { replace: true });
+    assert(current.isSymlink && current.isDir);
+    assertEquals(current.realpathSync().toString(), "/srv/app/conf");
+    assertEquals(
+      (await current.resolveLinks()).target.toString(),
+      "/srv/app/conf",
+    );
+    const names = new Array<string>();
+    for await (const p of root.walk({ followSymlinks: true })) {
+      names.push(p.relativeTo(root).toString());
+    }
+    assertEquals(names, [
+      "conf",
+      "conf/app.json",
+      "current",
+      "current/app.json",
+    ]);
+    assertEquals(
+      Array.from(Path.globSync("**/*.json", { cwd: root })).map((p) =>
+        p.toString()
+      ),
+      ["/srv/app/conf/app.json"],
+    );
+
+    await root.joinSafe("conf").copyTo(root.joinSafe("backup"));
+    root.joinSafe("backup").renameSync("old");
+    assert(root.joinSafe("old/app.json").isFile);
+    assert(!new Path("/srv/app", UNIX_SEPS).exists);
+
+    root.joinSafe("conf").chmodSync(0o500);
+    assertThrows(
+      () => root.joinSafe("conf/new.txt").writeTextSync("x"),
+      Deno.errors.PermissionDenied,
+    );
+    config.chmodSync(0o200);
+    await assertThrowsAsync(
+      () => config.readText(),
+      Deno.errors.PermissionDenied,
+    );
+    assertThrows(() => root.rmSync(), Error, "not empty");
+
+    const previous = Path.defaultFileSystem;
+    Path.defaultFileSystem = fs;
+    try {
+      const tmp = Path.createTempFileSync({ tmpDir: "/srv" });
+      assert(tmp.isFile);
+      tmp[Symbol.dispose]();
+      assert(!tmp.exists);
+      assert(new Path("/srv/app/old", UNIX_SEPS).isDir);
+    } finally {
+      Path.defaultFileSystem = previous;
+    }
+  },
+});
+
+Deno.test({
+  name: "home and environment variable expansion",
+  fn: () => {
+    const env = {
+      HOME: "/home/me",
+      USER: "me",
+      XDG_CACHE_HOME: "/var/cache/me",
+      EMPTY: "",
+    };
+    const expand = (s: string) => Path.expand(s, { env }, UNIX_SEPS).toString();
+    assertEquals(expand("~/data"), "/home/me/data");
+    assertEquals(expand("~"), "/home/me");
+    assertEquals(expand("~me/data"), "/home/me/data");
+    assertEquals(expand("$XDG_CACHE_HOME/app"), "/var/cache/me/app");
+    assertEquals(expand("${XDG_CACHE_HOME}app"), "/var/cache/meapp");
+    assertEquals(
+      expand("${XDG_DATA_HOME:-$HOME/.local/share}/app"),
+      "/home/me/.local/share/app",
+    );
+    assertEquals(expand("${EMPTY:-fallback}"), "fallback");
+    assertEquals(expand("${EMPTY-fallback}x"), "x");
+    assertEquals(expand("$MISSING/a"), "$MISSING/a");
+    assertEquals(expand("cost$/a~b"), "cost$/a~b");
+    assertThrows(
+      () => Path.expand("$MISSING/a", { env, strict: true }, UNIX_SEPS),
+      UndefinedVariableError,
+      "MISSING",
+    );
+    assertThrows(
+      () => Path.expand("~/a", { env: {}, strict: true }, UNIX_SEPS),
+      UndefinedVariableError,
+      "HOME",
+    );
+    assertEquals(
+      new Path("~/x", UNIX_SEPS).expandUser({ env: {} }).toString(),
+      "~/x",
+    );
+
+    const winEnv = {
+      UserProfile: "C:\\Users\\me",
+      APPDATA: "C:\\Users\\me\\AppData\\Roaming",
+      USERNAME: "me",
+    };
+    assertEquals(
+      Path.expand("%appdata%\\app", { env: winEnv }, WINDOWS_SEPS).toString(),
+      "C:\\Users\\me\\AppData\\Roaming\\app",
+    );
+    assertEquals(
+      Path.expand("~other/x", { env: winEnv }, WINDOWS_SEPS).toString(),
+      "C:\\Users\\other\\x",
+    );
+    assertEquals(
+      Path.expand("100%\\$HOME\\%NOPE%", { env: winEnv }, WINDOWS_SEPS)
+        .toString(),
+      "100%\\$HOME\\%NOPE%",
+    );
+
+    assertEquals(
+      new Path("/home/me/notes.md", UNIX_SEPS).contractUser({ env }).toString(),
+      "~/notes.md",
+    );
+    assertEquals(
+      new Path("/home/me", UNIX_SEPS).contractUser({ env }).toString(),
+      "~",
+    );
+    assertEquals(
+      new Path("/home/meow/x", UNIX_SEPS).contractUser({ env }).toString(),
+      "/home/meow/x",
+    );
+    assertEquals(
+      new Path("c:\\users\\ME\\Desktop", WINDOWS_SEPS).contractUser({
+        env: winEnv,
+      })
+        .toString(),
+      "~\\Desktop",
+    );
+  },
+});
+
+Deno.test({
+  name: "platform application directories",
+  fn: () => {
+    const home = { HOME: "/home/me" };
+    const linux = { env: home, os: "linux" as const };
+    assertEquals(Path.home(linux).toString(), "/home/me");
+    assertEquals(
+      Path.configDir("app", linux).toString(),
+      "/home/me/.config/app",
+    );
+    assertEquals(Path.cacheDir("app", linux).toString(), "/home/me/.cache/app");
+    assertEquals(
+      Path.dataDir("app", linux).toString(),
+      "/home/me/.local/share/app",
+    );
+    assertEquals(
+      Path.stateDir(undefined, linux).toString(),
+      "/home/me/.local/state",
+    );
+    assertEquals(Path.runtimeDir("app", linux).toString(), "/tmp/app");
+    const xdg = {
+      os: "linux" as const,
+      env: {
+        ...home,
+        XDG_CONFIG_HOME: "/etc/me",
+        XDG_CACHE_HOME: "relative/ignored",
+        XDG_RUNTIME_DIR: "/run/user/1000",
+      },
+    };
+    assertEquals(Path.configDir("app", xdg).toString(), "/etc/me/app");
+    assertEquals(Path.cacheDir("app", xdg).toString(), "/home/me/.cache/app");
+    assertEquals(Path.runtimeDir("app", xdg).toString(), "/run/user/1000/app");
+
+    const mac = { env: home, os: "darwin" as const };
+    assertEquals(
+      Path.configDir("app", mac).toString(),
+      "/home/me/Library/Application Support/app",
+    );
+    assertEquals(
+      Path.cacheDir("app", mac).toString(),
+      "/home/me/Library/Caches/app",
+    );
+
+    const windows = {
+      os: "windows" as const,
+      env: {
+        USERPROFILE: "C:\\Users\\me",
+        APPDATA: "C:\\Users\\me\\AppData\\Roaming",
+        TEMP: "D:\\tmp",
+      },
+    };
+    assertEquals(Path.home(windows).toString(), "C:\\Users\\me");
+    assertEquals(
+      Path.configDir("app", windows).toString(),
+      "C:\\Users\\me\\AppData\\Roaming\\app",
+    );
+    assertEquals(
+      Path.cacheDir("app", windows).toString(),
+      "C:\\Users\\me\\AppData\\Local\\app\\Cache",
+    );
+    assertEquals(Path.runtimeDir("app", windows).toString(), "D:\\tmp\\app");
+
+    assertThrows(
+      () => Path.dataDir("app", { env: {}, os: "linux" }),
+      UndefinedVariableError,
+      "HOME",
+    );
+  },
+});
+
+Deno.test({
+  name: "executable lookup on PATH",
+  fn: async () => {
+    const fs = new MemoryFileSystem();
+    const previous = Path.defaultFileSystem;
+    Path.defaultFileSystem = fs;
+    try {
+      const bin = (dir: string, name: string, mode: number) => {
+        fs.mkdirSync(dir, { recursive: true });
+        fs.writeFileSync(`${dir}/${name}`, new Uint8Array(), { mode });
+      };
+      bin("/usr/local/bin", "tool", 0o644);
+      bin("/usr/bin", "tool", 0o755);
+      bin("/bin", "tool", 0o700);
+      fs.mkdirSync("/opt/tool", { recursive: true });
+      const path = "/opt:/usr/local/bin::/usr/bin:/bin:/usr/bin";
+      assertEquals(
+        (await Path.which("tool", { path, separators: UNIX_SEPS }))
+          ?.toString(),
+        "/usr/bin/tool",
+      );
+      assertEquals(
+        Path.whichSync("tool", { path, all: true, separators: UNIX_SEPS })
+          .map((p) => p.toString()),
+        ["/usr/bin/tool", "/bin/tool"],
+      );
+      assertEquals(
+        await Path.which("missing", { path, separators: UNIX_SEPS }),
+        null,
+      );
+      bin("/work", "local-tool", 0o755);
+      fs.chdir("/work");
+      assertEquals(
+        Path.whichSync("local-tool", { path, separators: UNIX_SEPS })
+          ?.toString(),
+        "./local-tool",
+      );
+      assertEquals(
+        Path.whichSync("local-tool", { path: "/bin:", separators: UNIX_SEPS })
+          ?.toString(),
+        "./local-tool",
+      );
+      fs.chdir("/");
+      assertEquals(
+        Path.whichSync("/bin/tool", { path: "", separators: UNIX_SEPS })
+          ?.toString(),
+        "/bin/tool",
+      );
+
+      const winFs = new MemoryFileSystem({ separators: WINDOWS_SEPS });
+      Path.defaultFileSystem = winFs;
+      winFs.mkdirSync("C:\\Tools\\Git", { recursive: true });
+      winFs.writeFileSync("C:\\Tools\\Git\\git.EXE", new Uint8Array());
+      winFs.writeFileSync("C:\\Tools\\build.cmd", new Uint8Array());
+      const windows = {
+        path: 'C:\\Tools;"C:\\Tools\\Git"',
+        pathext: ".EXE;.CMD",
+        separators: WINDOWS_SEPS,
+      };
+      assertEquals(
+        Path.whichSync("git", windows)?.toString(),
+        "C:\\Tools\\Git\\git.EXE",
+      );
+      assertEquals(
+        (await Path.which("build.cmd", { ...windows, all: true }))
+          .map((p) => p.toString()),
+        ["C:\\Tools\\build.cmd"],
+      );
+    } finally {
+      Path.defaultFileSystem = previous;
+    }
+  },
+});
+
+Deno.test({
+  name: "searching upwards through ancestors",
+  fn: async () => {
+    assertEquals(
+      [...new PurePath("/a/./b/", UNIX_SEPS).ancestors()].map(String),
+      ["/a/b", "/a", "/"],
+    );
+    assertEquals(
+      [...new Path("a/b", UNIX_SEPS).ancestors()].map(String),
+      ["a/b", "a", "."],
+    );
+    assertEquals(
+      [...new Path("C:\\x\\y", WINDOWS_SEPS).ancestors()].map(String),
+      ["C:\\x\\y", "C:\\x", "C:\\"],
+    );
+
+    const fs = new MemoryFileSystem();
+    const root = new Path("/repo", UNIX_SEPS).withFileSystem(fs);
+    const deep = root.joinSafe("packages/app/src");
+    deep.mkDirSync(true);
+    root.joinSafe(".git").mkDirSync();
+    root.joinSafe("deno.json").writeTextSync("{}");
+    root.joinSafe("packages/app/deno.jsonc").writeTextSync("{}");
+    root.joinSafe("packages/deno.json").mkDirSync();
+
+    assertEquals(
+      (await deep.findUp(["deno.json", "deno.jsonc"]))?.toString(),
+      "/repo/packages/app/deno.jsonc",
+    );
+    assertEquals(
+      deep.findUpSync("deno.json")?.toString(),
+      "/repo/packages/deno.json",
+    );
+    assertEquals(
+      deep.findUpSync("deno.json", { type: "file" })?.toString(),
+      "/repo/deno.json",
+    );
+    assertEquals(
+      await deep.findUp(".git", { type: "file" }),
+      null,
+    );
+    assertEquals(
+      (await deep.findUp(async (dir) =>
+        await dir.joinSafe(".git").isDirAsync()
+      ))?.toString(),
+      "/repo",
+    );
+    assertEquals(
+      deep.findUpSync("deno.json", { type: "file", stopAt: "/repo/packages" }),
+      null,
+    );
+    const found = deep.findUpSync((dir) => dir.name === "app");
+    assert(found?.fileSystem === fs);
+    assertEquals(found?.toString(), "/repo/packages/app");
+  },
+});
+
+Deno.test({
+  name: "file and directory tree hashing",
+  fn: async () => {
+    const fs = new MemoryFileSystem();
+    const file = new Path("/a/hello.txt", UNIX_SEPS).withFileSystem(fs);
+    file.writeTextSync("hello", { parents: true });
+    assertEquals(
+      await file.hash(),
+      "2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824",
+    );
+    assertEquals(
+      await file.hash({ algorithm: "SHA-1" }),
+      "aaf4c61ddcc5e8a2dabede0f3b482cd9aea9434d",
+    );
+
+    // files are streamed through the hasher in chunks, the result must match a one shot digest
+    const big = new Path("/a/big.bin", UNIX_SEPS).withFileSystem(fs);
+    const bytes = new Uint8Array(200_001).map((_, i) => (i * 31) & 0xff);
+    big.writeBytesSync(bytes);
+    await using onDisk = await Path.createTempFile();
+    await onDisk.writeBytes(bytes);
+    for (
+      const algorithm of ["SHA-1", "SHA-256", "SHA-384", "SHA-512"] as const
+    ) {
+      const expected = Array.from(
+        new Uint8Array(await crypto.subtle.digest(algorithm, bytes)),
+        (b) => b.toString(16).padStart(2, "0"),
+      ).join("");
+      assertEquals(await big.hash({ algorithm }), expected);
+      assertEquals(await onDisk.hash({ algorithm }), expected);
+    }
+
+    const build = (root: string, order: string[]) => {
+      const dir = new Path(root, UNIX_SEPS).withFileSystem(fs);
+      for (const name of order) {
+        dir.joinSafe(name).writeTextSync(name, { parents: true });
+      }
+      return dir;
+    };
+    const x = build("/x", ["src/a.ts", "src/b.ts", "README.md"]);
+    const y = build("/deep/y", ["README.md", "src/b.ts", "src/a.ts"]);
+    y.joinSafe("empty").mkDirSync();
+    y.joinSafe("debug.log").writeTextSync("noise");
+    const key = await x.hashTree();
+    assertEquals(key.length, 64);
+    assertEquals(await y.hashTree({ exclude: ["*.log"] }), key);
+    assert(await y.hashTree() !== key);
+    assertEquals(
+      await x.hashTree({ include: ["src/*"] }),
+      await y.hashTree({ exclude: ["README.md", "debug.log"] }),
+    );
+
+    x.joinSafe("src/a.ts").chmodSync(0o600);
+    assertEquals(await x.hashTree(), key);
+    assert(
+      await x.hashTree({ modes: true }) !==
+        await y.hashTree({ modes: true, exclude: ["*.log"] }),
+    );
+
+    x.joinSafe("src/b.ts").writeTextSync("changed");
+    assert(await x.hashTree() !== key);
+
+    // names may contain newlines, they must not be able to forge another tree's records
+    const two = new Path("/two", UNIX_SEPS).withFileSystem(fs);
+    two.joinSafe("a").writeTextSync("1", { parents: true });
+    two.joinSafe("b").writeTextSync("2");
+    const forged = new Path("/forged", UNIX_SEPS).withFileSystem(fs);
+    const digest = await two.joinSafe("b").hash();
+    forged.joinSafe(`a\nfile\0\0${digest}\0b`).writeTextSync("1", {
+      parents: true,
+    });
+    assert(await two.hashTree() !== await forged.hashTree());
+  },
+});